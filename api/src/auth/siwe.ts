@@ -0,0 +1,153 @@
+import { randomBytes } from "crypto";
+import { ethers } from "ethers";
+import { RequestHandler } from "express";
+
+export interface AuthOptions {
+  domain: string; // host the web app is served from, e.g. "localhost:5173"
+  uri: string; // origin the web app is served from
+  statement: string;
+  nonceTtlMs: number;
+  maxPendingNonces: number; // oldest unused nonces are dropped beyond this many
+  sessionTtlMs: number;
+}
+
+export interface Session {
+  address: string; // lowercased
+  expiresAt: number;
+}
+
+export interface IssuedNonce {
+  nonce: string;
+  message: string; // exact text the wallet must sign
+  expiresAt: string;
+}
+
+export interface Auth {
+  issueNonce(address: string, chainId: number): IssuedNonce;
+  /** Verify a signed login message; returns a session token or throws AuthError */
+  verify(message: string, signature: string): { token: string; session: Session };
+  /** Express middleware: requires `Authorization: Bearer <token>` and sets res.locals.session */
+  requireSession: RequestHandler;
+}
+
+export class AuthError extends Error {}
+
+interface PendingNonce {
+  address: string;
+  message: string;
+  expiresAt: number;
+}
+
+/**
+ * Sign-In with Ethereum (EIP-4361 style) login
+ * The server issues a single-use nonce and the exact message to sign; a valid
+ * signature over it proves control of the address and yields a bearer session
+ */
+export function createAuth(options: AuthOptions): Auth {
+  const pendingNonces = new Map<string, PendingNonce>(); // in issue order
+  const latestNonce = new Map<string, string>(); // lowercased address -> its one outstanding nonce
+  const sessions = new Map<string, Session>();
+
+  const dropNonce = (nonce: string) => {
+    const pending = pendingNonces.get(nonce);
+    pendingNonces.delete(nonce);
+    if (pending && latestNonce.get(pending.address) === nonce) {
+      latestNonce.delete(pending.address);
+    }
+  };
+
+  const pruneExpired = () => {
+    const now = Date.now();
+    for (const [nonce, pending] of pendingNonces) {
+      if (pending.expiresAt <= now) dropNonce(nonce);
+    }
+    for (const [token, session] of sessions) {
+      if (session.expiresAt <= now) sessions.delete(token);
+    }
+  };
+
+  return {
+    issueNonce(address, chainId) {
+      pruneExpired();
+
+      // One outstanding nonce per address, and a bounded number overall
+      const previous = latestNonce.get(address.toLowerCase());
+      if (previous) {
+        dropNonce(previous);
+      }
+      while (pendingNonces.size >= options.maxPendingNonces) {
+        dropNonce(pendingNonces.keys().next().value!);
+      }
+
+      const nonce = randomBytes(16).toString("hex");
+      const issuedAt = new Date();
+      const expiresAt = new Date(issuedAt.getTime() + options.nonceTtlMs);
+      const message = [
+        `${options.domain} wants you to sign in with your Ethereum account:`,
+        ethers.getAddress(address),
+        "",
+        options.statement,
+        "",
+        `URI: ${options.uri}`,
+        "Version: 1",
+        `Chain ID: ${chainId}`,
+        `Nonce: ${nonce}`,
+        `Issued At: ${issuedAt.toISOString()}`,
+        `Expiration Time: ${expiresAt.toISOString()}`,
+      ].join("\n");
+
+      pendingNonces.set(nonce, {
+        address: address.toLowerCase(),
+        message,
+        expiresAt: expiresAt.getTime(),
+      });
+      latestNonce.set(address.toLowerCase(), nonce);
+
+      return { nonce, message, expiresAt: expiresAt.toISOString() };
+    },
+
+    verify(message, signature) {
+      const nonce = message.match(/^Nonce: ([0-9a-f]+)$/m)?.[1];
+      const pending = nonce ? pendingNonces.get(nonce) : undefined;
+      if (!nonce || !pending) {
+        throw new AuthError("Unknown or already used nonce");
+      }
+      // Nonces are single use, whether or not the signature checks out
+      dropNonce(nonce);
+
+      if (pending.expiresAt <= Date.now()) {
+        throw new AuthError("Nonce expired");
+      }
+      if (pending.message !== message) {
+        throw new AuthError("Message does not match the issued message");
+      }
+
+      let signer: string;
+      try {
+        signer = ethers.verifyMessage(message, signature).toLowerCase();
+      } catch {
+        throw new AuthError("Invalid signature");
+      }
+      if (signer !== pending.address) {
+        throw new AuthError("Signature does not match address");
+      }
+
+      const token = randomBytes(32).toString("hex");
+      const session = { address: signer, expiresAt: Date.now() + options.sessionTtlMs };
+      sessions.set(token, session);
+      return { token, session };
+    },
+
+    requireSession(req, res, next) {
+      const token = req.headers.authorization?.match(/^Bearer (\S+)$/)?.[1];
+      const session = token ? sessions.get(token) : undefined;
+      if (!token || !session || session.expiresAt <= Date.now()) {
+        if (token) sessions.delete(token);
+        res.status(401).json({ error: "Sign in with your wallet first" });
+        return;
+      }
+      res.locals.session = session;
+      next();
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import * as path from "path";
+import { parseArgs } from "util";
+import { config, indexerOptions, rpcPoolOptions } from "../config.js";
+import { createRpcPool } from "../rpc/pool.js";
+import { openIndexStore } from "../indexer/store.js";
+import { createIndexer } from "../indexer/indexer.js";
+import { loadStablecoins } from "../scoring/stablecoins.js";
+import { loadModelRegistry, type ModelDefinition } from "../scoring/model-registry.js";
+import { writeJsonFile } from "../storage/json-file.js";
+import { loadHistoricalLoans } from "../training/dataset.js";
+import { backtestTable, readMaxLtv, runBacktest, withOpeningLtv } from "../training/backtest.js";
+
+/**
+ * Backtest: replay every historical loan through one or more model versions
+ *
+ *   npm run backtest -- [--models linear-v1,logistic-v1] [--out report.json]
+ *
+ * Prints a per-tier table (approval rate, liquidation rate, average LTV) for
+ * each model side by side and writes the full report as JSON
+ * (default: DATA_DIR/backtests/<timestamp>.json)
+ */
+
+const { values: args } = parseArgs({
+  options: {
+    models: { type: "string" }, // comma-separated versions (default: every loaded model)
+    out: { type: "string" },
+    "skip-sync": { type: "boolean", default: false },
+  },
+});
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+if (config.rpcUrls.length === 0) fail("Missing RPC_URLS");
+if (!config.coreAddress) fail("Missing LENDING_CORE_ADDRESS");
+
+const { provider } = createRpcPool(config.rpcUrls, rpcPoolOptions());
+const registry = await loadModelRegistry(config.modelsDir);
+registry.close();
+
+const models: ModelDefinition[] = args.models
+  ? args.models.split(",").map((version) => registry.get(version.trim()) ?? fail(`Model ${version} not found`))
+  : registry.list();
+
+const stablecoins = await loadStablecoins(config.stablecoinsFile, config.usdcAddress);
+const signalSources = {
+  provider,
+  stablecoins,
+  stablecoinLookbackDays: config.stablecoinLookbackDays,
+  nativeUsdPrice: config.nativeUsdPrice,
+  coreAddress: config.coreAddress,
+};
+
+const store = await openIndexStore(path.join(config.dataDir, "index"), config.reorgDepth);
+if (!args["skip-sync"]) {
+  console.log("Syncing index...");
+  await createIndexer(provider, store, indexerOptions(stablecoins.map((coin) => coin.address))).syncOnce();
+}
+
+const loans = await withOpeningLtv(
+  provider,
+  config.coreAddress,
+  await loadHistoricalLoans({ ...signalSources, store })
+);
+const report = runBacktest(
+  loans,
+  models,
+  await readMaxLtv(provider, config.coreAddress),
+  store.getCheckpoint()?.number ?? null
+);
+
+const outPath =
+  args.out || path.join(config.dataDir, "backtests", `${report.ranAt.replace(/[:.]/g, "-")}.json`);
+await writeJsonFile(outPath, report);
+
+console.log(`${report.loans} historical loans, indexed to block ${report.indexedBlock}`);
+console.table(backtestTable(report));
+console.log(`Wrote ${outPath}`);
@@ -0,0 +1,173 @@
+import * as path from "path";
+import { parseArgs } from "util";
+import { config, indexerOptions, rpcPoolOptions } from "../config.js";
+import { createRpcPool } from "../rpc/pool.js";
+import { openIndexStore } from "../indexer/store.js";
+import { createIndexer } from "../indexer/indexer.js";
+import { loadStablecoins } from "../scoring/stablecoins.js";
+import { loadModelRegistry, type ModelDefinition, type ModelFeature } from "../scoring/model-registry.js";
+import { modelFeatures } from "../scoring/ml-model.js";
+import { writeJsonFile } from "../storage/json-file.js";
+import { buildDataset, type TrainingExample } from "../training/dataset.js";
+import { auc, calibrationByTier, fitLogistic, logLoss, predictProbability } from "../training/logistic.js";
+
+/**
+ * Offline training: learn logistic weights from on-chain loan outcomes
+ *
+ *   npm run train -- --version logistic-v1 [--base linear-v1] [--l2 0.01]
+ *
+ * Writes models/<version>.json (not activated: edit manifest.json to ship it)
+ * and models/reports/<version>.metrics.json
+ */
+
+const FEATURES: ModelFeature[] = [
+  "walletAge",
+  "recentTxCount",
+  "stablecoinHolding",
+  "loanHistory",
+  "interactionScore",
+  "counterpartyDiversity",
+  "decayedActivity",
+  "decayedBalance",
+  "momentum", // always 0 in training: loans are scored without a score history
+];
+
+const { values: args } = parseArgs({
+  options: {
+    version: { type: "string" },
+    base: { type: "string" }, // model whose normalizers/interaction/cutoffs are reused (default: active)
+    epochs: { type: "string", default: "5000" },
+    "learning-rate": { type: "string", default: "0.5" },
+    l2: { type: "string", default: "0.01" },
+    holdout: { type: "string", default: "0.2" }, // share of the most recent loans held out for metrics
+    "tier-a": { type: "string" },
+    "tier-b": { type: "string" },
+    "skip-sync": { type: "boolean", default: false },
+  },
+});
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+if (!args.version) fail("Usage: npm run train -- --version <new-model-version> [options]");
+if (config.rpcUrls.length === 0) fail("Missing RPC_URLS");
+
+const fitOptions = {
+  epochs: parseInt(args.epochs!, 10),
+  learningRate: parseFloat(args["learning-rate"]!),
+  l2: parseFloat(args.l2!),
+};
+const holdoutShare = parseFloat(args.holdout!);
+
+const { provider } = createRpcPool(config.rpcUrls, rpcPoolOptions());
+const registry = await loadModelRegistry(config.modelsDir);
+registry.close(); // only read once, no hot-reload needed
+
+if (registry.get(args.version)) fail(`Model ${args.version} already exists`);
+const base = args.base ? registry.get(args.base) : registry.getActive();
+if (!base) fail(`Base model ${args.base} not found`);
+
+const tierCutoffs = {
+  A: args["tier-a"] ? parseFloat(args["tier-a"]) : base.tierCutoffs.A,
+  B: args["tier-b"] ? parseFloat(args["tier-b"]) : base.tierCutoffs.B,
+};
+
+const stablecoins = await loadStablecoins(config.stablecoinsFile, config.usdcAddress);
+const signalSources = {
+  provider,
+  stablecoins,
+  stablecoinLookbackDays: config.stablecoinLookbackDays,
+  nativeUsdPrice: config.nativeUsdPrice,
+  coreAddress: config.coreAddress,
+};
+
+// Bring the local index up to the chain head (skip when the API is running against the same data dir)
+const store = await openIndexStore(path.join(config.dataDir, "index"), config.reorgDepth);
+if (!args["skip-sync"]) {
+  console.log("Syncing index...");
+  await createIndexer(provider, store, indexerOptions(stablecoins.map((coin) => coin.address))).syncOnce();
+}
+const indexedBlock = store.getCheckpoint()?.number ?? null;
+
+const { examples, skippedOpen, skippedFallback } = await buildDataset({ ...signalSources, store });
+const repaidCount = examples.filter((example) => example.repaid === 1).length;
+console.log(
+  `Dataset: ${examples.length} closed loans (${repaidCount} repaid, ${examples.length - repaidCount} liquidated), ` +
+    `${skippedOpen} still open, ${skippedFallback} without readable signals, indexed to block ${indexedBlock}`
+);
+if (examples.length === 0) fail("No closed loans to train on");
+
+// Time-ordered split: evaluate on the most recently opened loans
+const ordered = [...examples].sort((a, b) => a.openedAtBlock - b.openedAtBlock);
+const holdoutSize = Math.floor(ordered.length * holdoutShare);
+const hasHoldout = holdoutSize > 0 && ordered.length - holdoutSize >= 2;
+const trainSet = hasHoldout ? ordered.slice(0, ordered.length - holdoutSize) : ordered;
+const evalSet = hasHoldout ? ordered.slice(ordered.length - holdoutSize) : ordered;
+if (!hasHoldout) {
+  console.warn("Too few loans for a holdout set; metrics are computed on the training data");
+}
+
+const toRow = (example: TrainingExample) => {
+  const features = modelFeatures(example.signals, base);
+  return FEATURES.map((feature) => features[feature]);
+};
+
+const fit = fitLogistic(trainSet.map(toRow), trainSet.map((example) => example.repaid), fitOptions);
+
+const model: ModelDefinition = {
+  version: args.version,
+  type: "logistic",
+  description: `Logistic regression on ${trainSet.length} loan outcomes up to block ${indexedBlock}`,
+  intercept: fit.intercept,
+  coefficients: Object.fromEntries(FEATURES.map((feature, j) => [feature, fit.coefficients[j]])) as Record<
+    ModelFeature,
+    number
+  >,
+  normalizers: base.normalizers,
+  interaction: base.interaction,
+  tierCutoffs,
+};
+
+const evalLabels = evalSet.map((example) => example.repaid);
+const evalProbabilities = evalSet.map((example) => predictProbability(fit, toRow(example)));
+const report = {
+  version: model.version,
+  base: base.version,
+  trainedAt: new Date().toISOString(),
+  indexedBlock,
+  options: fitOptions,
+  dataset: {
+    closedLoans: examples.length,
+    repaid: repaidCount,
+    liquidated: examples.length - repaidCount,
+    skippedOpen,
+    skippedFallback,
+    train: trainSet.length,
+    evaluation: evalSet.length,
+    evaluatedOn: hasHoldout ? "holdout" : "train",
+  },
+  metrics: {
+    auc: auc(evalLabels, evalProbabilities),
+    logLoss: logLoss(evalLabels, evalProbabilities),
+    calibration: calibrationByTier(evalLabels, evalProbabilities, tierCutoffs),
+  },
+};
+
+const modelPath = path.join(config.modelsDir, `${model.version}.json`);
+const reportPath = path.join(config.modelsDir, "reports", `${model.version}.metrics.json`);
+await writeJsonFile(modelPath, model);
+await writeJsonFile(reportPath, report);
+
+console.log(`AUC: ${report.metrics.auc?.toFixed(3) ?? "n/a"}, log-loss: ${report.metrics.logLoss?.toFixed(3) ?? "n/a"}`);
+console.table(
+  report.metrics.calibration.map((row) => ({
+    tier: row.tier,
+    loans: row.count,
+    predicted: row.meanPredicted?.toFixed(3) ?? "-",
+    observed: row.observedRepaid?.toFixed(3) ?? "-",
+  }))
+);
+console.log(`Wrote ${modelPath} and ${reportPath}`);
+console.log(`Set "active": "${model.version}" in ${path.join(config.modelsDir, "manifest.json")} to use it`);
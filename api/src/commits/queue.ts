@@ -0,0 +1,344 @@
+import { randomUUID } from "crypto";
+import { ethers } from "ethers";
+import { readJsonFile, writeJsonFile } from "../storage/json-file.js";
+import { type ModelVariant, scoreCommitment } from "../scoring/score.js";
+
+export interface CommitQueueOptions {
+  pollIntervalMs: number;
+  stuckAfterMs: number; // replace a submitted tx that hasn't been mined after this long
+  maxRetries: number; // failed sends before a job is given up
+  backoffMs: number; // base delay, doubled per retry
+  feeBumpPercent: number; // fee increase per replacement (nodes require >= 10%)
+  retentionMs: number; // finished jobs are pruned after this long
+}
+
+export type CommitJobStatus = "queued" | "submitted" | "confirmed" | "failed";
+
+export interface CommitRequest {
+  address: string;
+  score: number;
+  tier: "A" | "B" | "C";
+  salt: string;
+  modelVersion: string;
+  modelVariant: ModelVariant | null; // null for scores recorded before model routing
+  blockNumber: number; // index block the score was computed at
+  blockHash: string | null; // null for scores recorded before block hashes were kept
+  computedAt: string;
+}
+
+interface TxAttempt {
+  hash: string;
+  maxFeePerGas: string | null; // wei; null for legacy gasPrice transactions
+  maxPriorityFeePerGas: string | null;
+  gasPrice: string | null;
+  sentAt: number;
+}
+
+export interface CommitJob extends CommitRequest {
+  id: string;
+  status: CommitJobStatus;
+  nonce: number | null; // assigned when first sent, kept for replacements
+  attempts: TxAttempt[];
+  retries: number;
+  nextAttemptAt: number;
+  txHash: string | null; // mined transaction
+  confirmedBlock: number | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommitQueue {
+  /** Persist a commit and return its job; the transaction is sent in the background */
+  enqueue(request: CommitRequest): Promise<CommitJob>;
+  get(id: string): CommitJob | undefined;
+  start(): void;
+  stop(): void;
+  status(): { pending: number; nextNonce: number | null; lastError: string | null };
+}
+
+interface QueueSnapshot {
+  version: 1;
+  jobs: CommitJob[];
+}
+
+const REGISTRY_ABI = ["function setScoreHash(address user, bytes32 scoreHash, uint8 tier) external"];
+
+// Errors that no retry can fix
+const PERMANENT_ERRORS: ethers.ErrorCode[] = ["CALL_EXCEPTION", "INSUFFICIENT_FUNDS", "INVALID_ARGUMENT"];
+
+const bump = (value: string | null, percent: number, floor: bigint | null) => {
+  if (value === null) return floor;
+  const bumped = (BigInt(value) * BigInt(100 + percent)) / 100n;
+  return floor !== null && floor > bumped ? floor : bumped;
+};
+
+/**
+ * Queue for on-chain score commits, sent one at a time from the API wallet
+ * The queue owns nonce assignment, so concurrent requests never race; sends
+ * are retried with exponential backoff, and stuck or underpriced transactions
+ * are replaced at the same nonce with higher fees. Jobs are persisted to
+ * `filePath` so pending commits survive a restart.
+ */
+export async function openCommitQueue(
+  filePath: string,
+  wallet: ethers.Wallet,
+  registryAddress: string,
+  options: CommitQueueOptions
+): Promise<CommitQueue> {
+  const provider = wallet.provider!;
+  const registry = new ethers.Contract(registryAddress, REGISTRY_ABI, wallet);
+
+  const snapshot = await readJsonFile<QueueSnapshot>(filePath, { version: 1, jobs: [] });
+  const cutoff = Date.now() - options.retentionMs;
+  const jobs = new Map(
+    snapshot.jobs
+      .filter((job) => job.status === "queued" || job.status === "submitted" || Date.parse(job.updatedAt) > cutoff)
+      .map((job) => [job.id, job])
+  );
+
+  let nextNonce: number | null = null;
+  let lastError: string | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = true;
+  let processing = false;
+
+  // Writes are serialized so an older snapshot never lands after a newer one
+  let persisting = Promise.resolve();
+  let changed = false; // a job changed since the last write
+  const persist = () => {
+    changed = false;
+    persisting = persisting.then(() => writeJsonFile(filePath, { version: 1, jobs: [...jobs.values()] }));
+    return persisting;
+  };
+
+  const update = (job: CommitJob, changes: Partial<CommitJob>) => {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    changed = true;
+  };
+
+  /**
+   * Re-read the wallet's next nonce from the chain, never going below one we already used
+   */
+  async function syncNonce(): Promise<number> {
+    const pending = await provider.getTransactionCount(wallet.address, "pending");
+    const used = [...jobs.values()]
+      .filter((job) => job.status === "submitted" && job.nonce !== null)
+      .map((job) => job.nonce! + 1);
+    nextNonce = Math.max(pending, ...used);
+    return nextNonce;
+  }
+
+  /**
+   * Sign and broadcast the job's transaction at `nonce`, with fees at least
+   * `feeBumpPercent` above the previous attempt when replacing one
+   */
+  async function send(job: CommitJob, nonce: number): Promise<void> {
+    const scoreHash = scoreCommitment(job.address, job.score, job.salt, job.modelVersion);
+    const tierNum = job.tier === "A" ? 2 : job.tier === "B" ? 1 : 0; // A=2, B=1, C=0
+
+    // Estimating first surfaces reverts (e.g. wallet not authorized) before anything is broadcast
+    const gasLimit = await registry.setScoreHash.estimateGas(job.address, scoreHash, tierNum);
+    const tx = await registry.setScoreHash.populateTransaction(job.address, scoreHash, tierNum);
+
+    const fees = await provider.getFeeData();
+    const previous = job.attempts[job.attempts.length - 1];
+    let feeFields: Pick<TxAttempt, "maxFeePerGas" | "maxPriorityFeePerGas" | "gasPrice">;
+    if (fees.maxFeePerGas !== null && fees.maxPriorityFeePerGas !== null) {
+      const maxFeePerGas = bump(previous?.maxFeePerGas ?? null, options.feeBumpPercent, fees.maxFeePerGas)!;
+      const maxPriorityFeePerGas = bump(
+        previous?.maxPriorityFeePerGas ?? null,
+        options.feeBumpPercent,
+        fees.maxPriorityFeePerGas
+      )!;
+      feeFields = {
+        maxFeePerGas: maxFeePerGas.toString(),
+        maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+        gasPrice: null,
+      };
+    } else {
+      const gasPrice = bump(previous?.gasPrice ?? null, options.feeBumpPercent, fees.gasPrice)!;
+      feeFields = { maxFeePerGas: null, maxPriorityFeePerGas: null, gasPrice: gasPrice.toString() };
+    }
+
+    const sent = await wallet.sendTransaction({
+      ...tx,
+      nonce,
+      gasLimit: (gasLimit * 12n) / 10n, // headroom in case state changes before mining
+      ...Object.fromEntries(Object.entries(feeFields).filter(([, value]) => value !== null)),
+    });
+
+    console.log(`Commit ${job.id} for ${job.address}: sent ${sent.hash} (nonce ${nonce}, attempt ${job.attempts.length + 1})`);
+    update(job, {
+      status: "submitted",
+      nonce,
+      attempts: [...job.attempts, { hash: sent.hash, ...feeFields, sentAt: Date.now() }],
+      error: null,
+    });
+  }
+
+  /**
+   * Record a failed send: permanent errors fail the job, anything else is retried with backoff
+   */
+  function handleSendError(job: CommitJob, error: unknown) {
+    const code = error instanceof Error && "code" in error ? String(error.code) : "unknown";
+    const message =
+      error instanceof Error ? ("shortMessage" in error ? String(error.shortMessage) : error.message) : String(error);
+    console.error(`Commit ${job.id} send failed (${code}):`, message);
+
+    if (ethers.isError(error, "NONCE_EXPIRED")) {
+      // Someone else used the nonce (or a restart lost track of it); resync and retry right away
+      nextNonce = null;
+      update(job, { status: job.attempts.length > 0 ? "submitted" : "queued", error: message });
+      return;
+    }
+
+    const retries = job.retries + 1;
+    if (PERMANENT_ERRORS.some((permanent) => ethers.isError(error, permanent)) || retries > options.maxRetries) {
+      update(job, { status: job.attempts.length > 0 ? "submitted" : "failed", retries, error: message });
+      return;
+    }
+    update(job, { retries, error: message, nextAttemptAt: Date.now() + options.backoffMs * 2 ** (retries - 1) });
+  }
+
+  /**
+   * Finish the job if any of its attempts has been mined; returns whether one was
+   */
+  async function settleMined(job: CommitJob): Promise<boolean> {
+    for (const attempt of job.attempts) {
+      const receipt = await provider.getTransactionReceipt(attempt.hash);
+      if (receipt) {
+        if (receipt.status === 1) {
+          console.log(`Commit ${job.id} confirmed in block ${receipt.blockNumber} (${attempt.hash})`);
+          update(job, { status: "confirmed", txHash: attempt.hash, confirmedBlock: receipt.blockNumber, error: null });
+        } else {
+          update(job, { status: "failed", txHash: attempt.hash, confirmedBlock: receipt.blockNumber, error: "Transaction reverted" });
+        }
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check a submitted job: confirm it once any of its attempts is mined, otherwise replace it if stuck
+   */
+  async function checkSubmitted(job: CommitJob): Promise<void> {
+    if (await settleMined(job)) {
+      return;
+    }
+
+    // The nonce was consumed by a transaction that isn't ours: send again at a new nonce.
+    // One of ours may have been mined since the receipts were read, so check them again first
+    const mined = await provider.getTransactionCount(wallet.address, "latest");
+    if (job.nonce !== null && mined > job.nonce) {
+      if (await settleMined(job)) {
+        return;
+      }
+      console.warn(`Commit ${job.id}: nonce ${job.nonce} was used by another transaction, requeueing`);
+      update(job, { status: "queued", nonce: null, attempts: [], nextAttemptAt: Date.now() });
+      return;
+    }
+
+    const lastSent = job.attempts[job.attempts.length - 1]?.sentAt ?? 0;
+    if (Date.now() - lastSent >= options.stuckAfterMs && Date.now() >= job.nextAttemptAt) {
+      console.warn(`Commit ${job.id}: ${job.attempts.length} attempt(s) not mined, replacing with higher fees`);
+      try {
+        await send(job, job.nonce!);
+      } catch (error) {
+        // A replacement that the node rejects as underpriced just waits for the next bump
+        handleSendError(job, error);
+      }
+    }
+  }
+
+  async function processOnce(): Promise<void> {
+    if (processing) return;
+    processing = true;
+    try {
+      const pending = [...jobs.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      for (const job of pending.filter((candidate) => candidate.status === "submitted")) {
+        await checkSubmitted(job);
+      }
+
+      for (const job of pending.filter((candidate) => candidate.status === "queued")) {
+        if (Date.now() < job.nextAttemptAt) continue;
+        const nonce = nextNonce ?? (await syncNonce());
+        try {
+          await send(job, nonce);
+          nextNonce = nonce + 1;
+        } catch (error) {
+          handleSendError(job, error);
+        }
+      }
+
+      lastError = null;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      console.error("Commit queue processing failed:", error);
+    } finally {
+      processing = false;
+      if (changed) {
+        await persist().catch((error) => {
+          changed = true; // try again after the next poll
+          console.error("Failed to persist commit queue:", error);
+        });
+      }
+    }
+  }
+
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(async () => {
+      await processOnce();
+      schedule();
+    }, options.pollIntervalMs);
+  };
+
+  return {
+    async enqueue(request) {
+      const now = new Date().toISOString();
+      const job: CommitJob = {
+        ...request,
+        id: randomUUID(),
+        status: "queued",
+        nonce: null,
+        attempts: [],
+        retries: 0,
+        nextAttemptAt: Date.now(),
+        txHash: null,
+        confirmedBlock: null,
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      jobs.set(job.id, job);
+      await persist();
+      // Don't wait for the next poll to send it
+      if (!stopped) processOnce();
+      return job;
+    },
+
+    get: (id) => jobs.get(id),
+
+    start() {
+      if (!stopped) return;
+      stopped = false;
+      processOnce().finally(schedule);
+    },
+
+    stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+
+    status() {
+      const pending = [...jobs.values()].filter((job) => job.status === "queued" || job.status === "submitted");
+      return { pending: pending.length, nextNonce, lastError };
+    },
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Map over `items` running at most `limit` calls of `fn` at a time
+ * Results keep the input order; a rejected call rejects the whole map, so
+ * callers that want per-item errors should catch inside `fn`
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,151 @@
+import * as dotenv from "dotenv";
+import type { IndexerOptions } from "./indexer/indexer.js";
+import type { RpcPoolOptions } from "./rpc/pool.js";
+import type { ScoreCacheOptions } from "./scoring/cache.js";
+import type { CommitQueueOptions } from "./commits/queue.js";
+import type { AuthOptions } from "./auth/siwe.js";
+
+dotenv.config();
+
+const int = (value: string | undefined, fallback: number) =>
+  value === undefined || value === "" ? fallback : parseInt(value, 10);
+
+/**
+ * Integer setting of at least `min`; a malformed value stops startup instead of
+ * becoming a NaN limit or timeout
+ */
+const checkedInt = (name: string, fallback: number, min = 1) => {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`${name} must be an integer of at least ${min}, got "${value}"`);
+  }
+  return parsed;
+};
+
+const list = (value: string | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Non-negative decimal setting, such as a price
+ */
+const checkedNumber = (name: string, fallback: number) => {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${value}"`);
+  }
+  return parsed;
+};
+
+/**
+ * Environment shared by the API server and the offline CLIs
+ */
+export const config = {
+  // Comma-separated, in priority order; later endpoints take over when earlier ones fail
+  rpcUrls: list(process.env.RPC_URLS || process.env.RPC_URL || process.env.POLYGON_AMOY_RPC),
+  privateKey: process.env.PRIVATE_KEY,
+  registryAddress: process.env.SCORE_REGISTRY_ADDRESS || process.env.SCORE_REGISTRY,
+  coreAddress: process.env.LENDING_CORE_ADDRESS || process.env.CORE_ADDRESS,
+  usdcAddress: process.env.USDC_ADDRESS,
+  dataDir: process.env.DATA_DIR || "./data",
+  modelsDir: process.env.MODELS_DIR || "./models",
+  stablecoinsFile: process.env.STABLECOINS_FILE || "./stablecoins.json",
+  stablecoinLookbackDays: int(process.env.STABLECOIN_LOOKBACK_DAYS, 30),
+  nativeUsdPrice: checkedNumber("NATIVE_USD_PRICE", 1), // values native flows next to stablecoin transfers
+  denylistFile: process.env.DENYLIST_FILE || "./denylist.json",
+  momentumSnapshots: int(process.env.SCORE_MOMENTUM_SNAPSHOTS, 5), // recent scores the momentum and trend span
+  reorgDepth: int(process.env.INDEXER_REORG_DEPTH, 64),
+  freshScoreMaxAgeMs: checkedInt("FRESH_SCORE_MAX_AGE_SECONDS", 300, 0) * 1000, // stored score a commit may reuse
+  scoreJobTimeoutMs: checkedInt("SCORE_JOB_TIMEOUT_SECONDS", 600) * 1000, // how long a score job waits for the indexer
+  batchMaxAddresses: checkedInt("SCORE_BATCH_MAX", 100), // per POST /score/batch
+  batchConcurrency: checkedInt("SCORE_BATCH_CONCURRENCY", 8), // addresses scored at once within a batch
+};
+
+/**
+ * Retry, backoff and concurrency limits for the RPC endpoint pool
+ */
+export function rpcPoolOptions(): RpcPoolOptions {
+  return {
+    maxConcurrency: int(process.env.RPC_MAX_CONCURRENCY, 8),
+    maxAttempts: int(process.env.RPC_MAX_ATTEMPTS, 4),
+    backoffMs: int(process.env.RPC_BACKOFF_MS, 500),
+    maxBackoffMs: int(process.env.RPC_MAX_BACKOFF_MS, 30000),
+    timeoutMs: int(process.env.RPC_TIMEOUT_MS, 15000),
+  };
+}
+
+/**
+ * Score cache lifetime and the cooldown between forced refreshes (0 allows a refresh any time)
+ */
+export function scoreCacheOptions(): ScoreCacheOptions {
+  return {
+    ttlMs: checkedInt("SCORE_CACHE_TTL_SECONDS", 86400) * 1000,
+    refreshCooldownMs: checkedInt("SCORE_REFRESH_COOLDOWN_SECONDS", 3600, 0) * 1000,
+  };
+}
+
+/**
+ * Commit queue polling, retry and fee-bump settings
+ */
+export function commitQueueOptions(): CommitQueueOptions {
+  return {
+    pollIntervalMs: checkedInt("COMMIT_POLL_MS", 3000),
+    stuckAfterMs: checkedInt("COMMIT_STUCK_SECONDS", 90) * 1000,
+    maxRetries: checkedInt("COMMIT_MAX_RETRIES", 5, 0),
+    backoffMs: checkedInt("COMMIT_BACKOFF_MS", 2000),
+    feeBumpPercent: checkedInt("COMMIT_FEE_BUMP_PERCENT", 25, 10), // nodes reject smaller replacements
+    retentionMs: 7 * 24 * 60 * 60 * 1000,
+  };
+}
+
+/**
+ * Sign-in message binding and nonce/session lifetimes
+ */
+export function authOptions(): AuthOptions {
+  return {
+    domain: process.env.AUTH_DOMAIN || "localhost:5173",
+    uri: process.env.AUTH_URI || "http://localhost:5173",
+    statement: "Sign in to ChainFlow to commit your credit score.",
+    nonceTtlMs: 5 * 60 * 1000,
+    maxPendingNonces: checkedInt("AUTH_MAX_PENDING_NONCES", 10000),
+    sessionTtlMs: checkedInt("AUTH_SESSION_TTL_SECONDS", 3600) * 1000,
+  };
+}
+
+// Canonical ERC-4337 EntryPoint deployments (same address on every chain)
+const ENTRY_POINT_V06 = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789";
+const ENTRY_POINT_V07 = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+
+/**
+ * Indexer settings; both the server and the CLIs read the same index
+ * `tokenAddresses` are the ERC20s whose transfers are indexed (the stablecoin registry)
+ */
+export function indexerOptions(tokenAddresses: string[]): IndexerOptions {
+  // Every block from here on is fetched and kept, so there is no default: genesis on a public chain never finishes
+  const startBlock = process.env.INDEXER_START_BLOCK;
+  if (!startBlock || !/^\d+$/.test(startBlock)) {
+    throw new Error("INDEXER_START_BLOCK must be set to the first block number to index");
+  }
+  return {
+    coreAddress: config.coreAddress,
+    tokenAddresses,
+    entryPointAddresses: process.env.ENTRY_POINT_ADDRESSES
+      ? list(process.env.ENTRY_POINT_ADDRESSES)
+      : [ENTRY_POINT_V06, ENTRY_POINT_V07],
+    startBlock: parseInt(startBlock, 10),
+    confirmations: int(process.env.INDEXER_CONFIRMATIONS, 0),
+    batchSize: int(process.env.INDEXER_BATCH_SIZE, 500),
+    pollIntervalMs: int(process.env.INDEXER_POLL_MS, 4000),
+    maxLag: int(process.env.INDEXER_MAX_LAG, 5),
+  };
+}
@@ -2,11 +2,32 @@ import express from "express";
 import cors from "cors";
 import { ethers } from "ethers";
 import { z } from "zod";
-import * as dotenv from "dotenv";
-import { collectSignals } from "./scoring/signals.js";
-import { computeScore, commitHash } from "./scoring/score.js";
-
-dotenv.config();
+import { collectSignals, getCounterparties, resolveBlockTag, SIGNAL_STEP_COUNT } from "./scoring/signals.js";
+import {
+  assignModel,
+  computeScore,
+  generateSalt,
+  type ModelRouting,
+  type ModelVariant,
+  type ScoreResult,
+  verifyCommitment,
+} from "./scoring/score.js";
+import { loadModelRegistry } from "./scoring/model-registry.js";
+import { loadStablecoins } from "./scoring/stablecoins.js";
+import { openScoreHistory, type ScoreSnapshot, scoreTrend } from "./scoring/history.js";
+import { createScoreCache } from "./scoring/cache.js";
+import { createScoreJobs, type ProgressReporter, type ScoreJob } from "./scoring/jobs.js";
+import { explainScore } from "./scoring/explain.js";
+import { HIGH_SYBIL_RISK } from "./scoring/sybil.js";
+import { type BlockRef, openIndexStore } from "./indexer/store.js";
+import { createIndexer } from "./indexer/indexer.js";
+import { AuthError, createAuth, type Session } from "./auth/siwe.js";
+import { type CommitJob, openCommitQueue } from "./commits/queue.js";
+import { openScreener, type ScreeningContext } from "./screening/denylist.js";
+import { authOptions, commitQueueOptions, config, indexerOptions, rpcPoolOptions, scoreCacheOptions } from "./config.js";
+import { createRpcPool } from "./rpc/pool.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { appendJsonLine } from "./storage/json-file.js";
 
 const app = express();
 const PORT = process.env.PORT || 4000;
@@ -15,33 +36,433 @@ app.use(cors());
 app.use(express.json());
 
 // Initialize provider and wallet
-const rpcUrl = process.env.RPC_URL || process.env.POLYGON_AMOY_RPC;
-const privateKey = process.env.PRIVATE_KEY;
-const registryAddress = process.env.SCORE_REGISTRY_ADDRESS || process.env.SCORE_REGISTRY;
-const coreAddress = process.env.LENDING_CORE_ADDRESS || process.env.CORE_ADDRESS;
-const usdcAddress = process.env.USDC_ADDRESS;
+const { rpcUrls, privateKey, registryAddress, coreAddress, usdcAddress, dataDir, modelsDir } = config;
 
-if (!rpcUrl || !privateKey || !registryAddress) {
+if (rpcUrls.length === 0 || !privateKey || !registryAddress) {
   console.error("Missing required environment variables");
   process.exit(1);
 }
 
-const provider = new ethers.JsonRpcProvider(rpcUrl);
+// Every chain read and write goes through the endpoint pool, so one failing node doesn't degrade scores
+const rpcPool = createRpcPool(rpcUrls, rpcPoolOptions());
+const provider = rpcPool.provider;
 const wallet = new ethers.Wallet(privateKey, provider);
 
 console.log("API wallet address:", wallet.address);
+console.log("RPC endpoints:", rpcPool.health().map((endpoint) => endpoint.endpoint).join(", "));
 console.log("Score registry:", registryAddress);
 console.log("Lending Core:", coreAddress || "Not set (loan history scoring disabled)");
-console.log("USDC Address:", usdcAddress || "Not set (stablecoin scoring disabled)");
+
+// Stablecoins whose balances make up the holdings signal
+const stablecoins = await loadStablecoins(config.stablecoinsFile, usdcAddress);
+console.log(
+  "Stablecoins:",
+  stablecoins.length > 0
+    ? stablecoins.map((coin) => `${coin.symbol} (${coin.address})`).join(", ")
+    : "None (stablecoin scoring disabled)"
+);
+
+// Computed scores are served from memory until they expire or the borrower's loans change
+const scoreCache = createScoreCache(scoreCacheOptions());
+
+// Background indexer: ingests blocks and LendingCore/ERC20 logs so scoring never scans blocks
+const indexStore = await openIndexStore(`${dataDir}/index`, config.reorgDepth);
+const indexSettings = indexerOptions(stablecoins.map((coin) => coin.address));
+const indexer = createIndexer(provider, indexStore, indexSettings);
+indexer.onLogs((logs) => {
+  for (const log of logs) {
+    if (log.event === "Transfer") continue;
+    const borrower = log.args.borrower ?? indexStore.getLoan(log.args.loanId)?.borrower;
+    if (borrower) {
+      scoreCache.invalidate(borrower);
+    }
+  }
+});
+indexer.onReorg(() => scoreCache.clear());
+indexer.start();
+
+// Denylist screening of wallets and their counterparties; a list change invalidates every cached score
+const screener = await openScreener(config.denylistFile, `${dataDir}/screening-audit.jsonl`);
+screener.onReload(() => scoreCache.clear());
+
+// Versioned model definitions, hot-reloaded when the models directory changes
+const modelRegistry = await loadModelRegistry(modelsDir);
+
+// Champion and challenger predictions for every score served while a challenger is evaluated
+const routingLogFile = `${dataDir}/model-routing.jsonl`;
+
+// Endpoint that served a score, recorded in the routing log
+type ServedBy = "score" | "job" | "batch" | "historical" | "explain" | "commit";
+
+// Every computed score is kept so clients can chart it over time
+const scoreHistory = await openScoreHistory(`${dataDir}/score-history.jsonl`);
+
+// Commits are queued and sent in the background so requests never wait on the chain
+const commitQueue = await openCommitQueue(
+  `${dataDir}/commit-jobs.json`,
+  wallet,
+  registryAddress,
+  commitQueueOptions()
+);
+commitQueue.start();
+
+// Scores clients compute in the background and poll, for when the indexer has a lot to catch up on
+const scoreJobs = createScoreJobs({ signalsTotal: SIGNAL_STEP_COUNT, retentionMs: 60 * 60 * 1000 });
+
+// Wallet-signature login: commits require a session for the address being committed
+const auth = createAuth(authOptions());
 
 // Validation schemas
+// Score and tier are never taken from the client: the server commits what it computed
 const commitScoreSchema = z.object({
   address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"),
+});
+
+const verifyScoreSchema = z.object({
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"),
   score: z.number().int().min(0).max(100),
-  tier: z.enum(["A", "B", "C"]),
+  salt: z.string().regex(/^0x[a-fA-F0-9]{64}$/, "Invalid salt"),
+  modelVersion: z.string().min(1),
+});
+
+const batchScoreSchema = z.object({
+  // Addresses are validated one by one so a bad entry only fails itself
+  addresses: z.array(z.string()).min(1).max(config.batchMaxAddresses, `At most ${config.batchMaxAddresses} addresses per batch`),
+});
+
+const scoreJobSchema = z.object({
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"),
+  refresh: z.boolean().optional(),
+});
+
+const authVerifySchema = z.object({
+  message: z.string().min(1),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, "Invalid signature"),
 });
 
-// GET /score/:address
+/**
+ * Collect signals, screen the wallet and compute the score with every read pinned to `asOf`
+ * The snapshot names the block it was computed at and the model it was routed to,
+ * so it can be reproduced later
+ */
+async function computeSnapshot(
+  address: string,
+  asOf: BlockRef,
+  routing: ModelRouting,
+  purpose: ScreeningContext["purpose"],
+  report?: ProgressReporter
+): Promise<ScoreSnapshot> {
+  const { model } = assignModel(address, routing);
+
+  // Collect signals from the local index plus balance reads at the pinned block
+  report?.({ stage: "signals" });
+  const { signals, quality, counterparties } = await collectSignals(
+    address,
+    {
+      provider,
+      store: indexStore,
+      stablecoins,
+      stablecoinLookbackDays: config.stablecoinLookbackDays,
+      nativeUsdPrice: config.nativeUsdPrice,
+      coreAddress,
+      asOf,
+      // Only scores from earlier blocks, so recomputing at this block reproduces the recorded score
+      previousScores: recentScores(address, model.version, asOf.number).map((snapshot) => snapshot.score),
+    },
+    (signalsDone) => report?.({ signalsDone })
+  );
+
+  report?.({ stage: "scoring" });
+  const { score, tier, method, modelVersion, modelVariant, shadow } = computeScore(signals, routing, address);
+
+  // A listed wallet or counterparty holds the wallet at tier C whatever its score
+  const screening = await screener.screen(address, counterparties, { purpose, blockNumber: asOf.number });
+  const screenedTier = (modelTier: ScoreResult["tier"]) => (screening.action === "allow" ? modelTier : "C");
+
+  return {
+    address: address.toLowerCase(),
+    score,
+    tier: screenedTier(tier),
+    method,
+    signals,
+    quality,
+    screening: { action: screening.action, reasons: [...new Set(screening.hits.map((hit) => hit.reason))] },
+    modelVersion,
+    modelVariant,
+    shadow: shadow ? { ...shadow, tier: screenedTier(shadow.tier) } : null,
+    blockNumber: asOf.number,
+    blockHash: asOf.hash,
+    computedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Record both models' predictions each time a score is served while a challenger
+ * is evaluated, so the two can be compared before the challenger is promoted
+ * Cached scores are logged too; `computedAt` tells repeat servings apart from new scores.
+ * `snapshot.tier` must be the tier served. A write failure only fails a commit, where the
+ * comparison must not go missing; reads log it and still serve the score
+ */
+async function logServedScore(snapshot: ScoreSnapshot, servedBy: ServedBy): Promise<void> {
+  const { shadow, modelVariant } = snapshot;
+  if (!shadow || !modelVariant) {
+    return;
+  }
+  const shadowVariant: ModelVariant = modelVariant === "champion" ? "challenger" : "champion";
+  console.log(
+    `Model routing ${snapshot.address} (${servedBy}): ${modelVariant} ${snapshot.modelVersion} scored ` +
+      `${snapshot.score}${snapshot.tier}, ${shadowVariant} ${shadow.modelVersion} scored ${shadow.score}${shadow.tier}`
+  );
+  try {
+    await appendJsonLine(routingLogFile, {
+      at: new Date().toISOString(),
+      address: snapshot.address,
+      servedBy,
+      blockNumber: snapshot.blockNumber,
+      computedAt: snapshot.computedAt,
+      assigned: { variant: modelVariant, modelVersion: snapshot.modelVersion, score: snapshot.score, tier: snapshot.tier },
+      shadow: { variant: shadowVariant, modelVersion: shadow.modelVersion, score: shadow.score, tier: shadow.tier },
+    });
+  } catch (error) {
+    if (servedBy === "commit") {
+      throw error;
+    }
+    console.error(`Error recording model routing for ${snapshot.address}:`, error);
+  }
+}
+
+/**
+ * The wallet's most recent recorded scores from one model before `beforeBlock`, oldest first
+ * Scores from other models aren't on the same scale, and scores with a failed chain read
+ * hold placeholder signals, so neither counts toward momentum or a trend
+ */
+function recentScores(address: string, modelVersion: string, beforeBlock: number): ScoreSnapshot[] {
+  return scoreHistory
+    .list(address)
+    .filter(
+      (snapshot) =>
+        snapshot.modelVersion === modelVersion &&
+        snapshot.blockNumber < beforeBlock &&
+        snapshot.quality !== undefined &&
+        !hasFailedReads(snapshot)
+    )
+    .slice(-config.momentumSnapshots);
+}
+
+/**
+ * Compute the current score and record it in the score history and cache
+ * Callers must check that the indexer is synced first; batches pass the block
+ * and model routing shared by every address so all results are consistent
+ */
+async function scoreAddress(
+  address: string,
+  pinned?: { asOf: BlockRef; routing: ModelRouting },
+  report?: ProgressReporter
+): Promise<ScoreSnapshot> {
+  // Pin to the checkpoint up front so the indexer advancing mid-score can't mix blocks
+  const asOf = pinned?.asOf ?? indexStore.getCheckpoint();
+  if (!asOf) {
+    throw new Error("Nothing indexed yet");
+  }
+  const routing = pinned?.routing ?? modelRegistry.getRouting();
+  const snapshot = await computeSnapshot(address, asOf, routing, "score", report);
+
+  await scoreHistory.record(snapshot);
+  // A failed chain read may succeed on the next request, so don't pin its placeholder for a day
+  if (!hasFailedReads(snapshot)) {
+    scoreCache.set(snapshot);
+  }
+  return snapshot;
+}
+
+/**
+ * Whether any of the snapshot's signals is a placeholder for a chain read that failed
+ */
+function hasFailedReads(snapshot: ScoreSnapshot): boolean {
+  return Object.values(snapshot.quality?.signals ?? {}).some((entry) => entry.provenance === "fallback");
+}
+
+/**
+ * Wait until the indexer has caught up, reporting the blocks it ingested meanwhile
+ */
+async function waitForIndexer(report: ProgressReporter, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  const from = indexer.status().checkpoint?.number ?? 0;
+  for (;;) {
+    const status = indexer.status();
+    const scanned = Math.max(0, (status.checkpoint?.number ?? from) - from);
+    if (status.synced) {
+      report({ blocksScanned: scanned, blocksTotal: scanned });
+      return;
+    }
+    report({ blocksScanned: scanned, blocksTotal: status.head === null ? null : Math.max(scanned, status.head - from) });
+    if (Date.now() >= deadline) {
+      throw new Error(`Indexer did not catch up within ${Math.round(timeoutMs / 1000)}s`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+}
+
+/**
+ * Version of the model currently serving `address`: the champion, or the challenger for routed wallets
+ */
+function servingModelVersion(address: string): string {
+  return assignModel(address, modelRegistry.getRouting()).model.version;
+}
+
+/**
+ * Cached score for `address` from the model serving it, honouring a forced refresh
+ * `retryAt` is set when a refresh was asked for during the cooldown
+ */
+function lookupCachedScore(address: string, refresh: boolean): { snapshot: ScoreSnapshot | null; retryAt: number | null } {
+  let snapshot = scoreCache.get(address);
+  if (snapshot && snapshot.modelVersion !== servingModelVersion(address)) {
+    snapshot = null; // Scored by a model that no longer serves this wallet
+  }
+
+  if (snapshot && refresh) {
+    const nextRefreshAt = scoreCache.nextRefreshAt(address);
+    if (nextRefreshAt) {
+      return { snapshot, retryAt: nextRefreshAt };
+    }
+    snapshot = null;
+  }
+  return { snapshot, retryAt: null };
+}
+
+/**
+ * Score response body shared by GET /score/:address and finished score jobs
+ */
+function scoreView(address: string, snapshot: ScoreSnapshot, cached: boolean) {
+  const { score, tier, method, signals, quality, screening, modelVersion, modelVariant, blockNumber, blockHash, computedAt } =
+    snapshot;
+  const nextRefreshAt = scoreCache.nextRefreshAt(address);
+  return {
+    address,
+    score,
+    tier,
+    accountType: signals.accountType ?? null, // null on scores computed before account types were detected
+    signals,
+    degraded: quality?.degraded ?? true, // scores without provenance can't be trusted either
+    quality: quality ?? null,
+    screening: screening ?? null,
+    tierCapped: signals.sybilRisk >= HIGH_SYBIL_RISK, // held at tier C by its sybil cluster, whatever the score
+    trend: scoreTrend(recentScores(address, modelVersion, blockNumber + 1)), // up to and including this score
+    method, // Indicate AI/ML-based scoring
+    modelVersion,
+    modelVariant: modelVariant ?? null, // null on scores computed before model routing
+    blockNumber,
+    blockHash: blockHash ?? null,
+    computedAt,
+    cached,
+    nextRefreshAt: nextRefreshAt ? new Date(nextRefreshAt).toISOString() : null,
+  };
+}
+
+/**
+ * Public view of a score job, with the score response once it completed
+ */
+function scoreJobView(job: ScoreJob) {
+  return {
+    jobId: job.id,
+    address: job.address,
+    status: job.status,
+    progress: job.progress,
+    result: job.result ? scoreView(ethers.getAddress(job.address), job.result, job.cached) : null,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+/**
+ * Public view of a commit job (attempt and nonce bookkeeping stays internal)
+ */
+function commitJobView(job: CommitJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    address: job.address,
+    score: job.score,
+    tier: job.tier,
+    salt: job.salt,
+    modelVersion: job.modelVersion,
+    modelVariant: job.modelVariant ?? null,
+    blockNumber: job.blockNumber,
+    blockHash: job.blockHash ?? null,
+    computedAt: job.computedAt,
+    txHash: job.txHash ?? job.attempts[job.attempts.length - 1]?.hash ?? null,
+    confirmedBlock: job.confirmedBlock,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+/**
+ * Latest stored score if it is still fresh and from the model serving the wallet, otherwise a newly computed one
+ * Only commits use this: they need a recent score, whereas reads are served from the cache
+ * Returns null when the indexer is behind and a new score can't be computed yet
+ */
+async function getFreshScore(address: string): Promise<ScoreSnapshot | null> {
+  const latest = scoreHistory.latest(address);
+  const isFresh =
+    latest &&
+    latest.quality !== undefined &&
+    latest.modelVersion === servingModelVersion(address) &&
+    Date.now() - Date.parse(latest.computedAt) <= config.freshScoreMaxAgeMs;
+  if (latest && isFresh) {
+    return latest;
+  }
+  if (!indexer.status().synced) {
+    return null;
+  }
+  return scoreAddress(address);
+}
+
+// GET /auth/nonce?address=0x...
+app.get("/auth/nonce", async (req, res) => {
+  try {
+    const address = String(req.query.address || "");
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({ error: "Invalid address" });
+    }
+
+    const { chainId } = await provider.getNetwork();
+    res.json(auth.issueNonce(address, Number(chainId)));
+  } catch (error) {
+    console.error("Error issuing nonce:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /auth/verify
+app.post("/auth/verify", (req, res) => {
+  try {
+    const { message, signature } = authVerifySchema.parse(req.body);
+    const { token, session } = auth.verify(message, signature);
+
+    res.json({
+      token,
+      address: session.address,
+      expiresAt: new Date(session.expiresAt).toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    if (error instanceof AuthError) {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error("Error verifying login:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /score/:address?refresh=true
+// GET /score/:address?blockTag=N[&modelVersion=v]
+// Served from the cache; `refresh` forces a recompute at most once per cooldown.
+// `blockTag` recomputes the score as of a past block instead (neither cached nor recorded)
 app.get("/score/:address", async (req, res) => {
   try {
     const address = req.params.address;
@@ -49,41 +470,252 @@ app.get("/score/:address", async (req, res) => {
       return res.status(400).json({ error: "Invalid address" });
     }
 
-    // Collect signals with contract addresses for on-chain data
-    const signals = await collectSignals(address, provider, coreAddress, usdcAddress);
+    if (req.query.blockTag !== undefined) {
+      const blockTag = String(req.query.blockTag);
+      if (!/^(\d+|0x[0-9a-fA-F]+)$/.test(blockTag)) {
+        return res.status(400).json({ error: "Invalid blockTag: use a block number or hash" });
+      }
+      // An explicit model version bypasses routing
+      const modelVersion = req.query.modelVersion ? String(req.query.modelVersion) : undefined;
+      const model = modelVersion ? modelRegistry.get(modelVersion) : undefined;
+      if (modelVersion && !model) {
+        return res.status(404).json({ error: `Model ${modelVersion} is not loaded` });
+      }
+      const routing: ModelRouting = model
+        ? { champion: model, challenger: null, challengerPercent: 0 }
+        : modelRegistry.getRouting();
 
-    // Compute score
-    const { score, tier } = computeScore(signals);
+      const asOf = await resolveBlockTag(provider, blockTag);
+      if (!asOf) {
+        return res.status(404).json({ error: "Block not found on the canonical chain" });
+      }
+      if (asOf.number < indexSettings.startBlock) {
+        return res.status(400).json({ error: `Block ${asOf.number} is before the indexed range (from ${indexSettings.startBlock})` });
+      }
+      // The index must hold exactly this block's history, not a reorged-out version of it
+      const checkpoint = indexStore.getCheckpoint();
+      const indexed = indexStore.getRecentBlocks().find((block) => block.number === asOf.number);
+      if (!checkpoint || asOf.number > checkpoint.number || (indexed && indexed.hash !== asOf.hash)) {
+        return res.status(503).json({ error: `Block ${asOf.number} is not indexed yet`, indexer: indexer.status() });
+      }
+
+      const snapshot = await computeSnapshot(address, asOf, routing, "historical");
+      await logServedScore(snapshot, "historical");
+      return res.json(scoreView(address, snapshot, false));
+    }
+
+    const lookup = lookupCachedScore(address, req.query.refresh === "true");
+    if (lookup.retryAt) {
+      res.setHeader("Retry-After", Math.ceil((lookup.retryAt - Date.now()) / 1000));
+      return res.status(429).json({
+        error: "Score was refreshed recently",
+        nextRefreshAt: new Date(lookup.retryAt).toISOString(),
+      });
+    }
+
+    let snapshot = lookup.snapshot;
+
+    const cached = snapshot !== null;
+    if (!snapshot) {
+      const indexerStatus = indexer.status();
+      if (!indexerStatus.synced) {
+        return res.status(503).json({ error: "Indexer is still syncing", indexer: indexerStatus });
+      }
+      snapshot = await scoreAddress(address);
+    }
+
+    await logServedScore(snapshot, "score");
+    res.json(scoreView(address, snapshot, cached));
+  } catch (error) {
+    console.error("Error getting score:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /score/jobs
+// Same as GET /score/:address, but computed in the background so a slow index catch-up can't time out the request
+app.post("/score/jobs", async (req, res) => {
+  try {
+    const { address, refresh } = scoreJobSchema.parse(req.body);
+
+    const { snapshot, retryAt } = lookupCachedScore(address, refresh ?? false);
+    if (retryAt) {
+      res.setHeader("Retry-After", Math.ceil((retryAt - Date.now()) / 1000));
+      return res.status(429).json({
+        error: "Score was refreshed recently",
+        nextRefreshAt: new Date(retryAt).toISOString(),
+      });
+    }
+    if (snapshot) {
+      await logServedScore(snapshot, "job");
+      return res.status(200).json(scoreJobView(scoreJobs.resolve(address, snapshot)));
+    }
+
+    const job = scoreJobs.start(address, async (report) => {
+      await waitForIndexer(report, config.scoreJobTimeoutMs);
+      const computed = await scoreAddress(address, undefined, report);
+      await logServedScore(computed, "job");
+      return computed;
+    });
+    res.status(202).json(scoreJobView(job));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error starting score job:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /score/jobs/:jobId
+app.get("/score/jobs/:jobId", (req, res) => {
+  const job = scoreJobs.get(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: "Score job not found" });
+  }
+  res.json(scoreJobView(job));
+});
+
+// GET /score/jobs/:jobId/events
+// Server-sent events: one `data:` message per progress update, closed once the job finishes
+app.get("/score/jobs/:jobId/events", (req, res) => {
+  const job = scoreJobs.get(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: "Score job not found" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const send = (current: ScoreJob) => {
+    res.write(`data: ${JSON.stringify(scoreJobView(current))}\n\n`);
+    if (current.status !== "running") res.end();
+  };
+
+  send(job);
+  if (job.status === "running") {
+    const unsubscribe = scoreJobs.subscribe(job.id, send);
+    req.on("close", unsubscribe);
+  }
+});
+
+// GET /score/:address/history
+app.get("/score/:address/history", (req, res) => {
+  const address = req.params.address;
+  if (!ethers.isAddress(address)) {
+    return res.status(400).json({ error: "Invalid address" });
+  }
+
+  const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    return res.status(400).json({ error: "Invalid limit" });
+  }
+
+  // Snapshots from other model versions are on another scale, so clients chart against the serving model's cutoffs
+  const { model } = assignModel(address, modelRegistry.getRouting());
+  res.json({
+    address,
+    modelVersion: model.version,
+    tierCutoffs: model.tierCutoffs,
+    history: scoreHistory.list(address, limit),
+  });
+});
+
+// GET /score/:address/explain
+// Explains the score GET /score/:address serves, computing it only on a cache miss
+app.get("/score/:address/explain", async (req, res) => {
+  try {
+    const address = req.params.address;
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({ error: "Invalid address" });
+    }
+
+    const cached = lookupCachedScore(address, false).snapshot;
+    const snapshot = cached ?? (indexer.status().synced ? await scoreAddress(address) : null);
+    if (!snapshot) {
+      return res.status(503).json({ error: "Indexer is still syncing", indexer: indexer.status() });
+    }
+    await logServedScore(snapshot, "explain");
+
+    // Explain with the model that produced the stored score while it is still loaded
+    const model = modelRegistry.get(snapshot.modelVersion) ?? modelRegistry.getActive();
 
     res.json({
       address,
-      score,
-      tier,
-      signals,
-      method: "ml", // Indicate AI/ML-based scoring
+      blockNumber: snapshot.blockNumber,
+      blockHash: snapshot.blockHash ?? null,
+      accountType: snapshot.signals.accountType ?? null,
+      signals: snapshot.signals,
+      quality: snapshot.quality ?? null,
+      screening: snapshot.screening ?? null,
+      ...explainScore(snapshot.signals, model, snapshot.screening),
     });
   } catch (error) {
-    console.error("Error getting score:", error);
+    console.error("Error explaining score:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
 // POST /score/commit
-app.post("/score/commit", async (req, res) => {
+app.post("/score/commit", auth.requireSession, async (req, res) => {
   try {
-    const body = commitScoreSchema.parse(req.body);
-    const { address, score, tier } = body;
+    const { address } = commitScoreSchema.parse(req.body);
 
-    console.log(`Received commit request for ${address}:`, { score, tier });
+    const session: Session = res.locals.session;
+    if (session.address !== address.toLowerCase()) {
+      return res.status(403).json({ error: "Session does not control this address" });
+    }
 
-    // Commit hash to on-chain registry
-    const txHash = await commitHash(address, score, tier, wallet, registryAddress);
+    // Reuse a fresh server-computed score, otherwise recompute it from chain data
+    const snapshot = await getFreshScore(address);
+    if (!snapshot) {
+      return res.status(503).json({ error: "Indexer is still syncing", indexer: indexer.status() });
+    }
 
-    res.json({
-      success: true,
+    // Screen again against the current list and everything indexed so far, not just the cached score's view
+    const screening = await screener.screen(address, getCounterparties(address, indexStore), {
+      purpose: "commit",
+      blockNumber: indexStore.getCheckpoint()?.number ?? null,
+    });
+    if (screening.action === "block") {
+      return res.status(403).json({
+        error: "Address is on the denylist and can't be committed",
+        reasons: [...new Set(screening.hits.map((hit) => hit.reason))],
+      });
+    }
+
+    // Only scores built entirely from real chain data go on-chain
+    if (snapshot.quality?.degraded !== false) {
+      return res.status(422).json({
+        error: "Score is based on default or fallback signals and can't be committed",
+        quality: snapshot.quality ?? null,
+      });
+    }
+
+    const { score, modelVersion, blockNumber, blockHash, computedAt } = snapshot;
+    const modelVariant = snapshot.modelVariant ?? null;
+    const capped = screening.action === "capTier";
+    const tier = capped ? "C" : snapshot.tier;
+    const shadow = snapshot.shadow && { ...snapshot.shadow, tier: capped ? "C" : snapshot.shadow.tier };
+    await logServedScore({ ...snapshot, tier, shadow }, "commit");
+    console.log(`Received commit request for ${address}:`, { score, tier, modelVersion, modelVariant, blockNumber });
+
+    // Queue the salted hash for the on-chain registry; the salt is only handed back to the user
+    const job = await commitQueue.enqueue({
       address,
-      txHash,
+      score,
+      tier,
+      salt: generateSalt(),
+      modelVersion,
+      modelVariant,
+      blockNumber,
+      blockHash: blockHash ?? null,
+      computedAt,
     });
+
+    res.status(202).json(commitJobView(job));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: "Validation error", details: error.errors });
@@ -97,9 +729,122 @@ app.post("/score/commit", async (req, res) => {
   }
 });
 
+// GET /score/commit/:jobId
+// Poll a queued commit; only the session owning the committed address may see it (it holds the salt)
+app.get("/score/commit/:jobId", auth.requireSession, (req, res) => {
+  const job = commitQueue.get(req.params.jobId);
+  const session: Session = res.locals.session;
+  if (!job || job.address.toLowerCase() !== session.address) {
+    return res.status(404).json({ error: "Commit job not found" });
+  }
+  res.json(commitJobView(job));
+});
+
+// POST /score/verify
+// Anyone holding (score, salt) from the owner can check them against the on-chain commitment
+app.post("/score/verify", async (req, res) => {
+  try {
+    const { address, score, salt, modelVersion } = verifyScoreSchema.parse(req.body);
+    const result = await verifyCommitment(address, score, salt, modelVersion, provider, registryAddress);
+
+    res.json({
+      address,
+      score: result.valid ? score : undefined,
+      modelVersion: result.valid ? modelVersion : undefined,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error verifying score:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /score/batch
+// Scores up to SCORE_BATCH_MAX addresses with one model routing, computing uncached ones at one indexed block
+app.post("/score/batch", async (req, res) => {
+  try {
+    const { addresses } = batchScoreSchema.parse(req.body);
+
+    const indexerStatus = indexer.status();
+    const asOf = indexStore.getCheckpoint();
+    if (!indexerStatus.synced || !asOf) {
+      return res.status(503).json({ error: "Indexer is still syncing", indexer: indexerStatus });
+    }
+    const routing = modelRegistry.getRouting();
+
+    // Duplicates (in any letter case) are scored once
+    const unique = addresses.filter(
+      (address, i) => addresses.findIndex((other) => other.toLowerCase() === address.toLowerCase()) === i
+    );
+
+    const results = await mapWithConcurrency(unique, config.batchConcurrency, async (address) => {
+      if (!ethers.isAddress(address)) {
+        return { address, error: "Invalid address" };
+      }
+      try {
+        // Cached scores are reused; anything else is computed at the shared block
+        const cached = scoreCache.get(address);
+        const snapshot =
+          cached && cached.modelVersion === assignModel(address, routing).model.version
+            ? cached
+            : await scoreAddress(address, { asOf, routing });
+        await logServedScore(snapshot, "batch");
+        const { score, tier, signals, quality, screening, modelVersion, modelVariant, blockNumber, blockHash, computedAt } =
+          snapshot;
+        return {
+          address,
+          score,
+          tier,
+          modelVersion,
+          modelVariant: modelVariant ?? null,
+          accountType: signals.accountType ?? null,
+          signals,
+          degraded: quality?.degraded ?? true,
+          quality: quality ?? null,
+          screening: screening ?? null,
+          tierCapped: signals.sybilRisk >= HIGH_SYBIL_RISK,
+          trend: scoreTrend(recentScores(address, modelVersion, blockNumber + 1)), // up to and including this score
+          blockNumber,
+          blockHash: blockHash ?? null,
+          computedAt,
+          cached: snapshot === cached,
+        };
+      } catch (error) {
+        console.error(`Error scoring ${address} in batch:`, error);
+        return { address, error: error instanceof Error ? error.message : "Scoring failed" };
+      }
+    });
+
+    res.json({
+      modelVersion: routing.champion.version,
+      challenger: routing.challenger
+        ? { modelVersion: routing.challenger.version, percent: routing.challengerPercent }
+        : null,
+      blockNumber: asOf.number,
+      blockHash: asOf.hash,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error scoring batch:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // Health check
 app.get("/health", (req, res) => {
-  res.json({ status: "ok" });
+  const rpc = rpcPool.health();
+  res.json({
+    status: rpc.some((endpoint) => endpoint.healthy) ? "ok" : "degraded",
+    rpc,
+    indexer: indexer.status(),
+    commitQueue: commitQueue.status(),
+  });
 });
 
 app.listen(PORT, () => {
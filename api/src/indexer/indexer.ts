@@ -0,0 +1,326 @@
+import { ethers } from "ethers";
+import type { BlockRef, IndexedLog, IndexedTx, IndexStore } from "./store.js";
+
+export interface IndexerOptions {
+  coreAddress?: string; // LendingCore, for loan events
+  tokenAddresses: string[]; // ERC20s whose Transfer logs are indexed
+  entryPointAddresses: string[]; // ERC-4337 EntryPoints whose UserOperationEvent logs are indexed
+  startBlock: number; // first block to ingest on an empty store
+  confirmations: number; // stay this many blocks behind the head
+  batchSize: number; // blocks per getLogs call / flush
+  pollIntervalMs: number;
+  maxLag: number; // blocks behind the head still considered "synced"
+}
+
+export interface IndexerStatus {
+  checkpoint: BlockRef | null;
+  head: number | null;
+  synced: boolean;
+  syncing: boolean;
+  lastError: string | null;
+}
+
+export interface Indexer {
+  start(): void;
+  stop(): void;
+  /** Ingest everything up to the current (confirmed) head once */
+  syncOnce(): Promise<void>;
+  status(): IndexerStatus;
+  /** Called with the decoded logs of every ingested block that has any */
+  onLogs(listener: (logs: IndexedLog[]) => void): void;
+  /** Called after the store was rolled back to `ancestor` */
+  onReorg(listener: (ancestor: BlockRef | null) => void): void;
+}
+
+const EVENTS_ABI = [
+  "event LoanOpened(uint256 indexed loanId, address indexed borrower, uint256 collateralAmount, uint256 debtAmount, uint8 tier)",
+  "event LoanRepaid(uint256 indexed loanId, uint256 repayAmount, uint256 remainingDebt)",
+  "event LoanLiquidated(uint256 indexed loanId, address indexed liquidator, uint256 seizedAmount)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)",
+  "event ExecutionSuccess(bytes32 txHash, uint256 payment)",
+];
+
+const CORE_LOANS_ABI = [
+  "function loans(uint256) view returns (address borrower, address collateralToken, address debtToken, uint256 collateralAmount, uint256 debtAmount, uint256 interestRate, uint256 createdAt, uint256 lastAccruedAt, bool active)",
+];
+
+const eventsInterface = new ethers.Interface(EVENTS_ABI);
+
+class ReorgDetected extends Error {}
+
+/**
+ * Background indexer: ingests blocks plus LendingCore/ERC20 logs into the store,
+ * along with smart-account activity that never shows up as a transaction `from`:
+ * EntryPoint user operations and Safe executions (from any Safe, by topic)
+ * Checkpoints are reorg-safe: every block's parentHash is checked against the
+ * previously ingested block, and on mismatch the store is rolled back to the
+ * last common ancestor before re-ingesting
+ */
+export function createIndexer(
+  provider: ethers.Provider,
+  store: IndexStore,
+  options: IndexerOptions
+): Indexer {
+  const logAddresses = [options.coreAddress, ...options.tokenAddresses]
+    .filter((address): address is string => !!address)
+    .map((address) => address.toLowerCase());
+  const topicHash = (name: string) => eventsInterface.getEvent(name)!.topicHash;
+  const topics = [["LoanOpened", "LoanRepaid", "LoanLiquidated", "Transfer"].map(topicHash)];
+  const entryPoints = options.entryPointAddresses.map((address) => address.toLowerCase());
+  const core = options.coreAddress
+    ? new ethers.Contract(options.coreAddress, CORE_LOANS_ABI, provider)
+    : null;
+
+  let head: number | null = null;
+  let syncing = false;
+  let lastError: string | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = true;
+  const logListeners: ((logs: IndexedLog[]) => void)[] = [];
+  const reorgListeners: ((ancestor: BlockRef | null) => void)[] = [];
+
+  // A failing listener must never stall ingestion
+  const notify = <T>(listeners: ((value: T) => void)[], value: T) => {
+    for (const listener of listeners) {
+      try {
+        listener(value);
+      } catch (error) {
+        console.error("Indexer listener failed:", error);
+      }
+    }
+  };
+
+  /**
+   * Walk back through the recent block window until the stored hash matches the chain
+   */
+  async function findCommonAncestor(): Promise<BlockRef | null> {
+    const recent = store.getRecentBlocks();
+    for (let i = recent.length - 1; i >= 0; i--) {
+      const chainBlock = await provider.getBlock(recent[i].number);
+      if (chainBlock?.hash === recent[i].hash) {
+        return recent[i];
+      }
+    }
+    // Reorg deeper than the window: treat the block before the window as final
+    if (recent.length > 0 && recent[0].number > 0) {
+      const block = await provider.getBlock(recent[0].number - 1);
+      if (block?.hash) {
+        return { number: block.number, hash: block.hash, timestamp: block.timestamp };
+      }
+    }
+    return null;
+  }
+
+  async function handleReorg(): Promise<void> {
+    const ancestor = await findCommonAncestor();
+    console.warn(`Reorg detected, rolling index back to block ${ancestor ? ancestor.number : "genesis"}`);
+    store.rollback(ancestor);
+    await store.flush();
+    notify(reorgListeners, ancestor);
+  }
+
+  async function fetchLogs(fromBlock: number, toBlock: number): Promise<Map<number, ethers.Log[]>> {
+    const byBlock = new Map<number, ethers.Log[]>();
+    const logs = await provider.getLogs({ topics: [topicHash("ExecutionSuccess")], fromBlock, toBlock });
+    if (logAddresses.length > 0) {
+      logs.push(...(await provider.getLogs({ address: logAddresses, topics, fromBlock, toBlock })));
+    }
+    // Only trust user operations reported by a known EntryPoint, anyone can emit the event
+    if (entryPoints.length > 0) {
+      logs.push(
+        ...(await provider.getLogs({
+          address: entryPoints,
+          topics: [topicHash("UserOperationEvent")],
+          fromBlock,
+          toBlock,
+        }))
+      );
+    }
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const log of logs) {
+      const list = byBlock.get(log.blockNumber) || [];
+      list.push(log);
+      byBlock.set(log.blockNumber, list);
+    }
+    return byBlock;
+  }
+
+  async function decodeLog(log: ethers.Log, timestamp: number): Promise<IndexedLog | null> {
+    const parsed = eventsInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) {
+      return null;
+    }
+
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      const value = parsed.args[i];
+      args[input.name] = typeof value === "string" ? value.toLowerCase() : value.toString();
+    });
+
+    // LoanLiquidated doesn't say whether the loan was closed, so record the debt left at that block
+    // A failed read fails the batch, which is retried on the next poll: without the debt a full
+    // liquidation would be scored as a partial one for good
+    if (parsed.name === "LoanLiquidated" && core) {
+      try {
+        const loan = await core.loans(args.loanId, { blockTag: log.blockNumber });
+        args.remainingDebt = loan.debtAmount.toString();
+      } catch (error) {
+        throw new Error(
+          `Could not read loan ${args.loanId} at block ${log.blockNumber}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    return {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      timestamp,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      address: log.address.toLowerCase(),
+      event: parsed.name as IndexedLog["event"],
+      args,
+    };
+  }
+
+  async function ingestRange(fromBlock: number, toBlock: number): Promise<void> {
+    const logsByBlock = await fetchLogs(fromBlock, toBlock);
+
+    for (let n = fromBlock; n <= toBlock; n++) {
+      const block = await provider.getBlock(n, true);
+      if (!block || !block.hash) {
+        throw new Error(`Block ${n} not available`);
+      }
+
+      const previous = store.getCheckpoint();
+      if (previous && block.parentHash !== previous.hash) {
+        throw new ReorgDetected();
+      }
+
+      const txs: IndexedTx[] = block.prefetchedTransactions.map((tx) => ({
+        hash: tx.hash,
+        blockNumber: block.number,
+        timestamp: block.timestamp,
+        from: tx.from.toLowerCase(),
+        to: tx.to ? tx.to.toLowerCase() : null,
+        value: tx.value.toString(),
+      }));
+
+      const logs: IndexedLog[] = [];
+      for (const log of logsByBlock.get(n) || []) {
+        if (log.blockHash !== block.hash) {
+          throw new ReorgDetected();
+        }
+        const decoded = await decodeLog(log, block.timestamp);
+        if (decoded) {
+          logs.push(decoded);
+        }
+      }
+
+      store.appendBlock({ number: block.number, hash: block.hash, timestamp: block.timestamp }, txs, logs);
+      if (logs.length > 0) {
+        notify(logListeners, logs);
+      }
+    }
+
+    await store.flush();
+  }
+
+  async function syncOnce(): Promise<void> {
+    if (syncing) {
+      return;
+    }
+    syncing = true;
+    try {
+      const latest = await provider.getBlockNumber();
+      head = latest;
+      const target = latest - options.confirmations;
+
+      const checkpoint = store.getCheckpoint();
+      if (checkpoint) {
+        const chainBlock = await provider.getBlock(checkpoint.number);
+        if (chainBlock?.hash !== checkpoint.hash) {
+          await handleReorg();
+        }
+      }
+
+      let next = (store.getCheckpoint()?.number ?? options.startBlock - 1) + 1;
+      while (next <= target && !stopped) {
+        const to = Math.min(target, next + options.batchSize - 1);
+        try {
+          await ingestRange(next, to);
+        } catch (error) {
+          if (!(error instanceof ReorgDetected)) {
+            throw error;
+          }
+          // Keep what was ingested before the fork point, then roll back to the common ancestor
+          await handleReorg();
+        }
+        next = (store.getCheckpoint()?.number ?? options.startBlock - 1) + 1;
+      }
+      lastError = null;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      console.error("Indexer sync failed:", error);
+    } finally {
+      syncing = false;
+    }
+  }
+
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(async () => {
+      await syncOnce();
+      schedule();
+    }, options.pollIntervalMs);
+  };
+
+  return {
+    start() {
+      if (!stopped) return;
+      stopped = false;
+      syncOnce().finally(schedule);
+    },
+
+    stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+
+    async syncOnce() {
+      const wasStopped = stopped;
+      stopped = false;
+      try {
+        await syncOnce();
+      } finally {
+        stopped = wasStopped;
+      }
+    },
+
+    status() {
+      const checkpoint = store.getCheckpoint();
+      const confirmedHead = head === null ? null : head - options.confirmations;
+      return {
+        checkpoint,
+        head,
+        synced:
+          confirmedHead !== null &&
+          (checkpoint?.number ?? options.startBlock - 1) >= confirmedHead - options.maxLag,
+        syncing,
+        lastError,
+      };
+    },
+
+    onLogs(listener) {
+      logListeners.push(listener);
+    },
+
+    onReorg(listener) {
+      reorgListeners.push(listener);
+    },
+  };
+}
@@ -0,0 +1,305 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+  appendJsonLines,
+  readJsonFile,
+  readJsonLines,
+  writeJsonFile,
+  writeJsonLines,
+} from "../storage/json-file.js";
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+  timestamp: number; // unix seconds
+}
+
+export interface IndexedTx {
+  hash: string;
+  blockNumber: number;
+  timestamp: number;
+  from: string; // lowercased
+  to: string | null; // lowercased, null for contract creation
+  value: string; // wei as decimal string
+}
+
+export type IndexedEventName =
+  | "LoanOpened"
+  | "LoanRepaid"
+  | "LoanLiquidated"
+  | "Transfer"
+  | "UserOperationEvent"
+  | "ExecutionSuccess";
+
+export interface IndexedLog {
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+  address: string; // emitting contract, lowercased
+  event: IndexedEventName;
+  args: Record<string, string>; // decoded args: addresses lowercased, integers as decimal strings
+}
+
+/**
+ * All indexed events for one LendingCore loan
+ */
+export interface LoanRecord {
+  loanId: string;
+  borrower: string;
+  opened: IndexedLog;
+  repayments: IndexedLog[];
+  liquidations: IndexedLog[];
+}
+
+// Bumped when the indexed events change; an older index is rebuilt from the start block
+const INDEX_VERSION = 3;
+
+// Blocks per segment file; only the newest segment is appended to, and a reorg rewrites at most the last few
+const SEGMENT_BLOCKS = 10_000;
+
+const SEGMENT_FILE = /^blocks-(\d+)\.jsonl$/;
+
+/** Checkpoint state, rewritten on every flush (small, unlike the segments) */
+interface IndexMeta {
+  version: number;
+  checkpoint: BlockRef | null;
+  recentBlocks: BlockRef[];
+}
+
+/** One line of a segment file: a block that had indexed transactions or logs */
+interface BlockRecord {
+  block: BlockRef;
+  txs: IndexedTx[];
+  logs: IndexedLog[];
+}
+
+export interface IndexStore {
+  /** Last fully ingested block, or null if nothing has been indexed yet */
+  getCheckpoint(): BlockRef | null;
+  /** Recently ingested blocks kept for reorg detection (oldest first) */
+  getRecentBlocks(): BlockRef[];
+  /** Append one block with its transactions and logs; blocks must arrive in order */
+  appendBlock(block: BlockRef, txs: IndexedTx[], logs: IndexedLog[]): void;
+  /** Drop everything above `ancestor` (null drops the whole index) */
+  rollback(ancestor: BlockRef | null): void;
+  flush(): Promise<void>;
+  getTransactions(address: string): IndexedTx[];
+  getTransfers(address: string): IndexedLog[];
+  /** Smart-account operations the address executed: ERC-4337 user operations and Safe executions */
+  getAccountActivity(address: string): IndexedLog[];
+  getLoans(borrower: string): LoanRecord[];
+  getLoan(loanId: string): LoanRecord | undefined;
+  /** Every indexed loan, in the order they were opened */
+  getAllLoans(): LoanRecord[];
+}
+
+const segmentStart = (blockNumber: number) => Math.floor(blockNumber / SEGMENT_BLOCKS) * SEGMENT_BLOCKS;
+
+/**
+ * Load (or create) the index store in directory `dir`
+ * Blocks are kept in append-only JSON Lines segments of SEGMENT_BLOCKS blocks
+ * each, next to a meta.json holding the checkpoint; flush() appends only the
+ * blocks ingested since the last flush. Lookups are served from memory.
+ */
+export async function openIndexStore(dir: string, reorgDepth: number): Promise<IndexStore> {
+  const metaFile = path.join(dir, "meta.json");
+  const segmentFile = (start: number) => path.join(dir, `blocks-${start}.jsonl`);
+
+  const listSegments = async (): Promise<number[]> => {
+    const files = await fs.readdir(dir).catch((error) => {
+      if (error?.code === "ENOENT") return [] as string[];
+      throw error;
+    });
+    return files
+      .map((file) => SEGMENT_FILE.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => parseInt(match[1], 10))
+      .sort((a, b) => a - b);
+  };
+
+  let meta = await readJsonFile<IndexMeta | null>(metaFile, null);
+  if (meta && meta.version !== INDEX_VERSION) {
+    console.warn(`Index in ${dir} is version ${meta.version}, rebuilding as version ${INDEX_VERSION}`);
+    meta = null;
+  }
+
+  let checkpoint = meta?.checkpoint ?? null;
+  let recentBlocks = meta?.recentBlocks ?? [];
+  let txs: IndexedTx[] = [];
+  let logs: IndexedLog[] = [];
+
+  // Blocks ingested since the last flush, and the block above which the files must be cut back
+  let pending: BlockRecord[] = [];
+  let truncateAbove: number | null = null;
+
+  // Lookup indexes, rebuilt from the flat arrays after load and rollback
+  let txsByAddress = new Map<string, IndexedTx[]>();
+  let transfersByAddress = new Map<string, IndexedLog[]>();
+  let activityByAddress = new Map<string, IndexedLog[]>();
+  let loansById = new Map<string, LoanRecord>();
+  let loansByBorrower = new Map<string, LoanRecord[]>();
+
+  const push = <K, T>(map: Map<K, T[]>, key: K, value: T) => {
+    const list = map.get(key);
+    if (list) {
+      list.push(value);
+    } else {
+      map.set(key, [value]);
+    }
+  };
+
+  const indexTx = (tx: IndexedTx) => {
+    push(txsByAddress, tx.from, tx);
+    if (tx.to && tx.to !== tx.from) {
+      push(txsByAddress, tx.to, tx);
+    }
+  };
+
+  const indexLog = (log: IndexedLog) => {
+    switch (log.event) {
+      case "Transfer":
+        push(transfersByAddress, log.args.from, log);
+        if (log.args.to !== log.args.from) {
+          push(transfersByAddress, log.args.to, log);
+        }
+        break;
+      case "UserOperationEvent":
+        push(activityByAddress, log.args.sender, log);
+        break;
+      case "ExecutionSuccess":
+        // Emitted by the Safe itself
+        push(activityByAddress, log.address, log);
+        break;
+      case "LoanOpened": {
+        const loan: LoanRecord = {
+          loanId: log.args.loanId,
+          borrower: log.args.borrower,
+          opened: log,
+          repayments: [],
+          liquidations: [],
+        };
+        loansById.set(loan.loanId, loan);
+        push(loansByBorrower, loan.borrower, loan);
+        break;
+      }
+      case "LoanRepaid":
+        loansById.get(log.args.loanId)?.repayments.push(log);
+        break;
+      case "LoanLiquidated":
+        loansById.get(log.args.loanId)?.liquidations.push(log);
+        break;
+    }
+  };
+
+  const rebuildIndexes = () => {
+    txsByAddress = new Map();
+    transfersByAddress = new Map();
+    activityByAddress = new Map();
+    loansById = new Map();
+    loansByBorrower = new Map();
+    txs.forEach(indexTx);
+    logs.forEach(indexLog);
+  };
+
+  // Blocks written past the checkpoint (a crash before meta.json was updated) are dropped on the next flush
+  const loadUpTo = checkpoint ? checkpoint.number : -1;
+  for (const start of await listSegments()) {
+    for (const record of await readJsonLines<BlockRecord>(segmentFile(start))) {
+      if (record.block.number <= loadUpTo) {
+        txs.push(...record.txs);
+        logs.push(...record.logs);
+      } else {
+        truncateAbove = loadUpTo;
+      }
+    }
+  }
+
+  rebuildIndexes();
+
+  /**
+   * Cut the segment files back to blocks at or below `keepUpTo`
+   */
+  const truncateSegments = async (keepUpTo: number) => {
+    for (const start of await listSegments()) {
+      if (start > keepUpTo) {
+        await fs.unlink(segmentFile(start));
+      } else if (start + SEGMENT_BLOCKS - 1 > keepUpTo) {
+        const records = await readJsonLines<BlockRecord>(segmentFile(start));
+        await writeJsonLines(segmentFile(start), records.filter((record) => record.block.number <= keepUpTo));
+      }
+    }
+  };
+
+  return {
+    getCheckpoint: () => checkpoint,
+
+    getRecentBlocks: () => recentBlocks,
+
+    appendBlock(block, blockTxs, blockLogs) {
+      if (checkpoint && block.number !== checkpoint.number + 1) {
+        throw new Error(`Out-of-order block ${block.number} (checkpoint ${checkpoint.number})`);
+      }
+      for (const tx of blockTxs) {
+        txs.push(tx);
+        indexTx(tx);
+      }
+      for (const log of blockLogs) {
+        logs.push(log);
+        indexLog(log);
+      }
+      if (blockTxs.length > 0 || blockLogs.length > 0) {
+        pending.push({ block, txs: blockTxs, logs: blockLogs });
+      }
+      checkpoint = block;
+      recentBlocks.push(block);
+      if (recentBlocks.length > reorgDepth) {
+        recentBlocks = recentBlocks.slice(-reorgDepth);
+      }
+    },
+
+    rollback(ancestor) {
+      const keepUpTo = ancestor ? ancestor.number : -1;
+      const flushedUpTo = pending.length > 0 ? pending[0].block.number - 1 : checkpoint ? checkpoint.number : -1;
+      if (keepUpTo < flushedUpTo) {
+        truncateAbove = Math.min(truncateAbove ?? keepUpTo, keepUpTo);
+      }
+      pending = pending.filter((record) => record.block.number <= keepUpTo);
+      txs = txs.filter((tx) => tx.blockNumber <= keepUpTo);
+      logs = logs.filter((log) => log.blockNumber <= keepUpTo);
+      recentBlocks = recentBlocks.filter((block) => block.number <= keepUpTo);
+      checkpoint = ancestor;
+      rebuildIndexes();
+    },
+
+    async flush() {
+      if (truncateAbove !== null) {
+        await truncateSegments(truncateAbove);
+        truncateAbove = null;
+      }
+      const bySegment = new Map<number, BlockRecord[]>();
+      for (const record of pending) {
+        push(bySegment, segmentStart(record.block.number), record);
+      }
+      for (const [start, records] of bySegment) {
+        await appendJsonLines(segmentFile(start), records);
+      }
+      pending = [];
+      // Written last: segments may run ahead of the checkpoint, never behind it
+      await writeJsonFile(metaFile, { version: INDEX_VERSION, checkpoint, recentBlocks } satisfies IndexMeta);
+    },
+
+    getTransactions: (address) => txsByAddress.get(address.toLowerCase()) || [],
+
+    getTransfers: (address) => transfersByAddress.get(address.toLowerCase()) || [],
+
+    getAccountActivity: (address) => activityByAddress.get(address.toLowerCase()) || [],
+
+    getLoans: (borrower) => loansByBorrower.get(borrower.toLowerCase()) || [],
+
+    getLoan: (loanId) => loansById.get(loanId),
+
+    getAllLoans: () => [...loansById.values()],
+  };
+}
@@ -0,0 +1,227 @@
+import { ethers } from "ethers";
+
+export interface RpcPoolOptions {
+  maxConcurrency: number; // in-flight requests per endpoint
+  maxAttempts: number; // tries per request, across endpoints
+  backoffMs: number; // cooldown after an endpoint's first failure, doubled per consecutive failure
+  maxBackoffMs: number;
+  timeoutMs: number; // per HTTP request
+}
+
+export interface RpcEndpointHealth {
+  endpoint: string; // host only, so API keys in the URL path aren't exposed
+  healthy: boolean; // not cooling down after a failure
+  inFlight: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: string | null;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+}
+
+export interface RpcPool {
+  /** Provider whose requests are spread over the pool's endpoints */
+  provider: ethers.JsonRpcProvider;
+  health(): RpcEndpointHealth[];
+}
+
+interface Endpoint {
+  url: string;
+  label: string;
+  inFlight: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+}
+
+type RpcResponse = ethers.JsonRpcResult | ethers.JsonRpcError;
+type SendFn = (payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) => Promise<RpcResponse[]>;
+
+// JSON-RPC errors that mean "slow down" rather than "your request is wrong"
+const RATE_LIMIT_CODES = new Set([-32005, -32029]);
+const RATE_LIMIT_MESSAGE = /rate limit|too many requests|request limit exceeded|capacity exceeded/i;
+
+const isRateLimited = (response: RpcResponse) =>
+  "error" in response &&
+  (RATE_LIMIT_CODES.has(response.error.code) || RATE_LIMIT_MESSAGE.test(response.error.message ?? ""));
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Error text that is safe to log and report on /health
+ * ethers' HTTP errors embed the request URL, API key included, so keep their
+ * short message and replace any URL in it with its host
+ */
+function describeError(error: unknown): string {
+  const message =
+    (error as { shortMessage?: unknown })?.shortMessage ?? (error instanceof Error ? error.message : String(error));
+  return String(message).replace(/\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>]+/gi, (url) => {
+    try {
+      return new URL(url).host;
+    } catch {
+      return "<url>";
+    }
+  });
+}
+
+/**
+ * JsonRpcProvider that hands every request to the pool instead of one URL
+ */
+class PooledJsonRpcProvider extends ethers.JsonRpcProvider {
+  readonly #send: SendFn;
+
+  constructor(url: string, send: SendFn) {
+    super(url);
+    this.#send = send;
+  }
+
+  // The base class types these as successes, but error entries are returned the same way
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    return (await this.#send(payload)) as ethers.JsonRpcResult[];
+  }
+}
+
+/**
+ * Spread RPC traffic over several endpoints, in priority order
+ * A request goes to the first endpoint that isn't cooling down and has a free
+ * slot. Transport errors, HTTP errors and rate limiting put the endpoint in an
+ * exponentially growing cooldown and retry the request on the next one; JSON-RPC
+ * errors such as reverts are answers, not failures, and are returned as-is.
+ */
+export function createRpcPool(urls: string[], options: RpcPoolOptions): RpcPool {
+  if (urls.length === 0) {
+    throw new Error("At least one RPC endpoint is required");
+  }
+
+  const endpoints: Endpoint[] = urls.map((url, i) => {
+    let host = url;
+    try {
+      host = new URL(url).host;
+    } catch {
+      // Not a URL ethers can fetch either; the first request will report it
+    }
+    return {
+      url,
+      label: `#${i + 1} ${host}`,
+      inFlight: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+      lastLatencyMs: null,
+      lastError: null,
+    };
+  });
+
+  // Requests waiting for a free slot; woken whenever one is released
+  let waiters: Array<() => void> = [];
+
+  /**
+   * Reserve a slot on the best available endpoint, preferring ones this request hasn't tried yet
+   */
+  async function acquire(tried: Set<Endpoint>): Promise<Endpoint> {
+    for (;;) {
+      const now = Date.now();
+      const usable = endpoints.filter((endpoint) => endpoint.cooldownUntil <= now);
+      const ordered = [
+        ...usable.filter((endpoint) => !tried.has(endpoint)),
+        ...usable.filter((endpoint) => tried.has(endpoint)),
+      ];
+      const free = ordered.find((endpoint) => endpoint.inFlight < options.maxConcurrency);
+      if (free) {
+        free.inFlight++;
+        return free;
+      }
+
+      if (usable.length > 0) {
+        await new Promise<void>((resolve) => waiters.push(resolve));
+      } else {
+        // Every endpoint is backing off: wait for the first one to come back
+        await sleep(Math.min(...endpoints.map((endpoint) => endpoint.cooldownUntil)) - now);
+      }
+    }
+  }
+
+  function release(endpoint: Endpoint) {
+    endpoint.inFlight--;
+    const woken = waiters;
+    waiters = [];
+    woken.forEach((resolve) => resolve());
+  }
+
+  function recordFailure(endpoint: Endpoint, error: unknown) {
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = describeError(error);
+    const cooldown = Math.min(options.maxBackoffMs, options.backoffMs * 2 ** (endpoint.consecutiveFailures - 1));
+    endpoint.cooldownUntil = Date.now() + cooldown;
+    console.warn(`RPC ${endpoint.label} failed, cooling down for ${cooldown}ms:`, endpoint.lastError);
+  }
+
+  async function post(endpoint: Endpoint, payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) {
+    const request = new ethers.FetchRequest(endpoint.url);
+    request.timeout = options.timeoutMs;
+    request.retryFunc = async () => false; // throttling is handled by rotating endpoints
+    request.body = JSON.stringify(payload);
+    request.setHeader("content-type", "application/json");
+
+    const response = await request.send();
+    response.assertOk();
+    const body = response.bodyJson;
+    const results: RpcResponse[] = Array.isArray(body) ? body : [body];
+
+    const limited = results.find(isRateLimited);
+    if (limited && "error" in limited) {
+      throw new Error(`Rate limited: ${limited.error.message}`);
+    }
+    return results;
+  }
+
+  const send: SendFn = async (payload) => {
+    const tried = new Set<Endpoint>();
+    let lastError: string | null = null;
+
+    for (let attempt = 0; attempt < options.maxAttempts; attempt++) {
+      const endpoint = await acquire(tried);
+      tried.add(endpoint);
+      endpoint.requests++;
+      const started = Date.now();
+      try {
+        const results = await post(endpoint, payload);
+        endpoint.consecutiveFailures = 0;
+        endpoint.lastLatencyMs = Date.now() - started;
+        return results;
+      } catch (error) {
+        recordFailure(endpoint, error);
+        lastError = endpoint.lastError;
+      } finally {
+        release(endpoint);
+      }
+    }
+    // Callers log this too, so it carries the cleaned message rather than ethers' error
+    throw new Error(`RPC request failed after ${options.maxAttempts} attempts: ${lastError}`);
+  };
+
+  return {
+    provider: new PooledJsonRpcProvider(urls[0], send),
+
+    health() {
+      const now = Date.now();
+      return endpoints.map((endpoint) => ({
+        endpoint: endpoint.label,
+        healthy: endpoint.cooldownUntil <= now,
+        inFlight: endpoint.inFlight,
+        requests: endpoint.requests,
+        failures: endpoint.failures,
+        consecutiveFailures: endpoint.consecutiveFailures,
+        cooldownUntil: endpoint.cooldownUntil > now ? new Date(endpoint.cooldownUntil).toISOString() : null,
+        lastLatencyMs: endpoint.lastLatencyMs,
+        lastError: endpoint.lastError,
+      }));
+    },
+  };
+}
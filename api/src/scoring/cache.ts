@@ -0,0 +1,65 @@
+import type { ScoreSnapshot } from "./history.js";
+
+export interface ScoreCacheOptions {
+  ttlMs: number; // how long a computed score is served before it is recomputed
+  refreshCooldownMs: number; // minimum time between client-forced refreshes of one address
+}
+
+export interface ScoreCache {
+  /** Cached snapshot if it hasn't expired or been invalidated */
+  get(address: string): ScoreSnapshot | null;
+  set(snapshot: ScoreSnapshot): void;
+  /** When a forced refresh of `address` is allowed again (ms epoch), or null if it is allowed now */
+  nextRefreshAt(address: string): number | null;
+  /** Drop an address, e.g. when one of its loans changes on-chain; resets its cooldown too */
+  invalidate(address: string): void;
+  clear(): void;
+}
+
+interface CacheEntry {
+  snapshot: ScoreSnapshot;
+  expiresAt: number;
+  refreshableAt: number;
+}
+
+/**
+ * In-memory score cache so repeated page loads don't recollect signals
+ * Entries are evicted lazily when read after their TTL
+ */
+export function createScoreCache(options: ScoreCacheOptions): ScoreCache {
+  const entries = new Map<string, CacheEntry>();
+
+  const entry = (address: string) => {
+    const key = address.toLowerCase();
+    const cached = entries.get(key);
+    if (cached && cached.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return cached;
+  };
+
+  return {
+    get: (address) => entry(address)?.snapshot ?? null,
+
+    set(snapshot) {
+      const now = Date.now();
+      entries.set(snapshot.address, {
+        snapshot,
+        expiresAt: now + options.ttlMs,
+        refreshableAt: now + options.refreshCooldownMs,
+      });
+    },
+
+    nextRefreshAt(address) {
+      const refreshableAt = entry(address)?.refreshableAt;
+      return refreshableAt !== undefined && refreshableAt > Date.now() ? refreshableAt : null;
+    },
+
+    invalidate: (address) => {
+      entries.delete(address.toLowerCase());
+    },
+
+    clear: () => entries.clear(),
+  };
+}
@@ -0,0 +1,169 @@
+import type { NumericSignal, Signals } from "./signals.js";
+import { scoreWithModel, type ScoreResult } from "./score.js";
+import { getFeatureImportance } from "./ml-model.js";
+import type { ModelDefinition } from "./model-registry.js";
+import { HIGH_SYBIL_RISK } from "./sybil.js";
+import type { ScreeningAction } from "../screening/denylist.js";
+
+export interface NextTier {
+  tier: "A" | "B";
+  threshold: number;
+  pointsNeeded: number;
+}
+
+/**
+ * A single-signal change that would move the wallet into the next tier
+ */
+export interface Counterfactual {
+  signal: keyof Signals;
+  change: number; // in the signal's own units
+  newScore: number;
+  newTier: "A" | "B" | "C";
+  description: string;
+}
+
+export interface ScoreExplanation extends ScoreResult {
+  contributions: ReturnType<typeof getFeatureImportance>;
+  nextTier: NextTier | null;
+  counterfactuals: Counterfactual[];
+}
+
+interface SignalLever {
+  signal: NumericSignal;
+  step?: number; // smallest change worth suggesting, in the signal's units (default 1)
+  maxIncrease: (signals: Signals, model: ModelDefinition) => number;
+  /** Signals after raising `signal` by `change`, moving the signals derived from the same behaviour with it */
+  apply?: (signals: Signals, change: number) => Signals;
+  describe: (change: number, tier: string) => string;
+}
+
+// Stablecoin balances stop adding to any model input past this average ($10 = 1 holding point)
+const MAX_SCORED_STABLECOIN_USD = 1000;
+
+// Signals a user can move, with how far each can go and how to phrase the tip
+const LEVERS: SignalLever[] = [
+  {
+    signal: "stablecoinBalanceUsd",
+    step: 10,
+    maxIncrease: (signals) =>
+      Math.max(
+        0,
+        MAX_SCORED_STABLECOIN_USD - Math.min(signals.stablecoinBalanceUsd, signals.decayedStablecoinBalanceUsd ?? 0)
+      ),
+    // Holding $X more throughout the window raises both averages by $X, and the holding score with them
+    apply: (signals, change) => {
+      const stablecoinBalanceUsd = signals.stablecoinBalanceUsd + change;
+      return {
+        ...signals,
+        stablecoinBalanceUsd,
+        decayedStablecoinBalanceUsd: (signals.decayedStablecoinBalanceUsd ?? 0) + change,
+        stablecoinHoldingScore: Math.min(100, Math.floor(stablecoinBalanceUsd / 10)),
+      };
+    },
+    describe: (change, tier) => `Keeping $${change} more in stablecoins on average would move you to tier ${tier}`,
+  },
+  {
+    signal: "recentTxCount",
+    maxIncrease: (signals, model) =>
+      Math.max(
+        0,
+        Math.ceil(
+          model.normalizers.recentTxCount - Math.min(signals.recentTxCount, signals.decayedActivity ?? 0)
+        )
+      ),
+    // New transactions count in full toward recency-weighted activity too
+    apply: (signals, change) => ({
+      ...signals,
+      recentTxCount: signals.recentTxCount + change,
+      decayedActivity: (signals.decayedActivity ?? 0) + change,
+    }),
+    describe: (change, tier) =>
+      `${change} more transaction${change === 1 ? "" : "s"} in the next 30 days would move you to tier ${tier}`,
+  },
+  {
+    signal: "loanHistoryScore",
+    maxIncrease: (signals) => 100 - signals.loanHistoryScore,
+    describe: (change, tier) =>
+      `Raising your loan history score by ${change} points (a recently repaid 100 USDC loan adds about 10) would move you to tier ${tier}`,
+  },
+  {
+    signal: "counterpartyScore",
+    maxIncrease: (signals) => 100 - (signals.counterpartyScore ?? 0),
+    describe: (change, tier) =>
+      `Raising your counterparty diversity by ${change} points (dealing with more distinct addresses and protocols) would move you to tier ${tier}`,
+  },
+  {
+    signal: "walletAge",
+    maxIncrease: (signals, model) => Math.max(0, model.normalizers.walletAgeDays - signals.walletAge),
+    describe: (change, tier) =>
+      `With current activity, your wallet reaches tier ${tier} in ${change} day${change === 1 ? "" : "s"}`,
+  },
+];
+
+function getNextTier(score: number, model: ModelDefinition): NextTier | null {
+  if (score >= model.tierCutoffs.A) {
+    return null;
+  }
+  const tier = score >= model.tierCutoffs.B ? "A" : "B";
+  const threshold = model.tierCutoffs[tier];
+  return { tier, threshold, pointsNeeded: threshold - score };
+}
+
+/**
+ * Smallest increase of one signal that reaches the target tier, if any
+ * A linear scan finds the minimum even for models that aren't monotonic in the lever (tree ensembles)
+ */
+function findCounterfactual(
+  signals: Signals,
+  model: ModelDefinition,
+  lever: SignalLever,
+  target: NextTier
+): Counterfactual | null {
+  const maxIncrease = lever.maxIncrease(signals, model);
+  const step = lever.step ?? 1;
+  for (let change = step; change < maxIncrease + step; change += step) {
+    const candidate = lever.apply?.(signals, change) ?? { ...signals, [lever.signal]: signals[lever.signal] + change };
+    const result = scoreWithModel(candidate, model);
+    if (result.score >= target.threshold) {
+      return {
+        signal: lever.signal,
+        change,
+        newScore: result.score,
+        newTier: result.tier,
+        description: lever.describe(change, target.tier),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Explain a score: per-feature contributions, distance to the next tier and
+ * concrete single-signal changes that would reach it
+ * `screening` is the score's screening result; a wallet it caps is explained at tier C
+ */
+export function explainScore(
+  signals: Signals,
+  model: ModelDefinition,
+  screening?: { action: ScreeningAction }
+): ScoreExplanation {
+  const result = scoreWithModel(signals, model);
+  const screened = screening !== undefined && screening.action !== "allow";
+
+  // No score change lifts a wallet held at tier C by screening or its sybil cluster
+  const held = screened || signals.sybilRisk >= HIGH_SYBIL_RISK;
+  const nextTier = held ? null : getNextTier(result.score, model);
+  const counterfactuals = nextTier
+    ? LEVERS.map((lever) => findCounterfactual(signals, model, lever, nextTier)).filter(
+        (counterfactual): counterfactual is Counterfactual => counterfactual !== null
+      )
+    : [];
+
+  return {
+    ...result,
+    tier: screened ? "C" : result.tier,
+    contributions: getFeatureImportance(signals, model),
+    nextTier,
+    counterfactuals,
+  };
+}
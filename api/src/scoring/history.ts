@@ -0,0 +1,77 @@
+import type { SignalQuality, Signals } from "./signals.js";
+import type { ScreeningAction } from "../screening/denylist.js";
+import type { ModelVariant, ScoreResult } from "./score.js";
+import { appendJsonLine, readJsonLines } from "../storage/json-file.js";
+
+/**
+ * One computed score, stored with everything needed to explain it later
+ */
+export interface ScoreSnapshot extends ScoreResult {
+  address: string; // lowercased
+  signals: Signals;
+  quality?: SignalQuality; // absent on scores recorded before provenance was tracked
+  screening?: { action: ScreeningAction; reasons: string[] }; // absent on scores recorded before screening
+  blockNumber: number; // index checkpoint the signals were read at
+  blockHash?: string; // absent on scores recorded before block hashes were kept
+  computedAt: string; // ISO timestamp
+  modelVariant?: ModelVariant; // absent on scores recorded before model routing
+  shadow?: ScoreResult | null; // the other model's screened prediction while a challenger is evaluated
+}
+
+export interface ScoreTrend {
+  direction: "up" | "down" | "flat";
+  delta: number; // newest score minus the oldest one measured
+  snapshots: number; // how many snapshots the trend covers
+}
+
+export interface ScoreHistory {
+  record(snapshot: ScoreSnapshot): Promise<void>;
+  /** Snapshots for an address, oldest first; `limit` keeps only the most recent */
+  list(address: string, limit?: number): ScoreSnapshot[];
+  latest(address: string): ScoreSnapshot | undefined;
+}
+
+/**
+ * Open the append-only score history log at `filePath`
+ */
+export async function openScoreHistory(filePath: string): Promise<ScoreHistory> {
+  const byAddress = new Map<string, ScoreSnapshot[]>();
+
+  const add = (snapshot: ScoreSnapshot) => {
+    const list = byAddress.get(snapshot.address) || [];
+    list.push(snapshot);
+    byAddress.set(snapshot.address, list);
+  };
+
+  (await readJsonLines<ScoreSnapshot>(filePath)).forEach(add);
+
+  return {
+    async record(snapshot) {
+      const normalized = { ...snapshot, address: snapshot.address.toLowerCase() };
+      await appendJsonLine(filePath, normalized);
+      add(normalized);
+    },
+
+    list(address, limit) {
+      const list = byAddress.get(address.toLowerCase()) || [];
+      return limit ? list.slice(-limit) : list;
+    },
+
+    latest(address) {
+      const list = byAddress.get(address.toLowerCase());
+      return list ? list[list.length - 1] : undefined;
+    },
+  };
+}
+
+/**
+ * Direction of a run of snapshots (oldest first); flat until there are two to compare
+ */
+export function scoreTrend(snapshots: ScoreSnapshot[]): ScoreTrend {
+  const delta = snapshots.length < 2 ? 0 : snapshots[snapshots.length - 1].score - snapshots[0].score;
+  return {
+    direction: delta > 0 ? "up" : delta < 0 ? "down" : "flat",
+    delta,
+    snapshots: snapshots.length,
+  };
+}
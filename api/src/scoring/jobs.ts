@@ -0,0 +1,140 @@
+import { randomUUID } from "crypto";
+import type { ScoreSnapshot } from "./history.js";
+
+export type ScoreJobStatus = "running" | "completed" | "failed";
+
+export interface ScoreJobProgress {
+  stage: "indexing" | "signals" | "scoring" | "done";
+  blocksScanned: number; // blocks the indexer ingested while the job waited for it
+  blocksTotal: number | null; // blocks it had to catch up on, null until the chain head is known
+  signalsDone: number;
+  signalsTotal: number;
+}
+
+export interface ScoreJob {
+  id: string;
+  address: string;
+  status: ScoreJobStatus;
+  progress: ScoreJobProgress;
+  result: ScoreSnapshot | null;
+  cached: boolean; // result was served from the score cache without recomputing
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Called by a running job to report how far it got */
+export type ProgressReporter = (progress: Partial<ScoreJobProgress>) => void;
+
+export interface ScoreJobs {
+  /**
+   * Start computing `address` in the background, or return the job already
+   * running for it so repeated clicks don't start duplicate scans
+   */
+  start(address: string, run: (report: ProgressReporter) => Promise<ScoreSnapshot>): ScoreJob;
+  /** Record a job that is already complete, e.g. a cache hit */
+  resolve(address: string, snapshot: ScoreSnapshot): ScoreJob;
+  get(id: string): ScoreJob | undefined;
+  /** Listen for updates to a job until it finishes; returns an unsubscribe function */
+  subscribe(id: string, listener: (job: ScoreJob) => void): () => void;
+}
+
+export interface ScoreJobsOptions {
+  signalsTotal: number;
+  retentionMs: number; // finished jobs are dropped after this long
+}
+
+/**
+ * In-memory registry of score computations clients can poll or stream
+ * Jobs only live as long as the process; a client that loses its job after a
+ * restart just starts a new one
+ */
+export function createScoreJobs(options: ScoreJobsOptions): ScoreJobs {
+  const jobs = new Map<string, ScoreJob>();
+  const listeners = new Map<string, Set<(job: ScoreJob) => void>>();
+
+  const create = (address: string, status: ScoreJobStatus): ScoreJob => {
+    prune();
+    const now = new Date().toISOString();
+    const job: ScoreJob = {
+      id: randomUUID(),
+      address: address.toLowerCase(),
+      status,
+      progress: { stage: "indexing", blocksScanned: 0, blocksTotal: null, signalsDone: 0, signalsTotal: options.signalsTotal },
+      result: null,
+      cached: false,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    jobs.set(job.id, job);
+    return job;
+  };
+
+  const update = (job: ScoreJob, changes: Partial<ScoreJob>) => {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    for (const listener of listeners.get(job.id) ?? []) {
+      listener(job);
+    }
+    if (job.status !== "running") {
+      listeners.delete(job.id);
+    }
+  };
+
+  function prune() {
+    const cutoff = Date.now() - options.retentionMs;
+    for (const [id, job] of jobs) {
+      if (job.status !== "running" && Date.parse(job.updatedAt) < cutoff) {
+        jobs.delete(id);
+      }
+    }
+  }
+
+  return {
+    start(address, run) {
+      const running = [...jobs.values()].find(
+        (job) => job.status === "running" && job.address === address.toLowerCase()
+      );
+      if (running) return running;
+
+      const job = create(address, "running");
+      const report: ProgressReporter = (progress) => {
+        if (job.status === "running") update(job, { progress: { ...job.progress, ...progress } });
+      };
+
+      run(report).then(
+        (snapshot) => {
+          update(job, {
+            status: "completed",
+            result: snapshot,
+            progress: { ...job.progress, stage: "done", signalsDone: job.progress.signalsTotal },
+          });
+        },
+        (error) => {
+          console.error(`Score job ${job.id} for ${job.address} failed:`, error);
+          update(job, { status: "failed", error: error instanceof Error ? error.message : "Scoring failed" });
+        }
+      );
+      return job;
+    },
+
+    resolve(address, snapshot) {
+      const job = create(address, "completed");
+      job.result = snapshot;
+      job.cached = true;
+      job.progress = { ...job.progress, stage: "done", signalsDone: options.signalsTotal };
+      return job;
+    },
+
+    get: (id) => jobs.get(id),
+
+    subscribe(id, listener) {
+      const set = listeners.get(id) ?? new Set();
+      set.add(listener);
+      listeners.set(id, set);
+      return () => {
+        set.delete(listener);
+      };
+    },
+  };
+}
@@ -1,4 +1,6 @@
-import { Signals } from "./signals";
+import type { Signals } from "./signals.js";
+import type { ModelDefinition, ModelFeature, TreeEnsembleModel } from "./model-registry.js";
+import { ensembleInputs, ensembleScore, evaluateEnsemble, explainEnsemble } from "./tree-ensemble.js";
 
 /**
  * Simple ML-based credit scoring model
@@ -6,40 +8,29 @@ import { Signals } from "./signals";
  * This is a simplified ML approach - in production, you'd use TensorFlow/PyTorch
  */
 
-interface ModelWeights {
-  walletAge: number;
-  recentTxCount: number;
-  stablecoinHolding: number;
-  loanHistory: number;
-  interactionScore: number; // Learned from patterns
-}
-
-// Learned weights from training (simulated - in production, train on real data)
-const MODEL_WEIGHTS: ModelWeights = {
-  walletAge: 0.25,           // 25% weight
-  recentTxCount: 0.20,       // 20% weight
-  stablecoinHolding: 0.25,   // 25% weight
-  loanHistory: 0.20,         // 20% weight
-  interactionScore: 0.10,    // 10% weight (interaction patterns)
-};
+// Weights, normalizers and tier cutoffs are loaded from versioned model
+// files (see model-registry.ts) so new models ship without a code change
 
 /**
  * Calculate interaction score based on feature interactions
  * ML technique: Feature engineering and interaction terms
  */
-function calculateInteractionScore(signals: Signals): number {
+function calculateInteractionScore(signals: Signals, model: ModelDefinition): number {
   // Interaction terms (ML technique: polynomial features)
   // These capture non-linear relationships between features
   
   // Wallet age × Transaction activity (older + active = better)
-  const ageActivityInteraction = (signals.walletAge / 365) * (signals.recentTxCount / 50);
+  const ageActivityInteraction =
+    (signals.walletAge / model.normalizers.walletAgeDays) *
+    (signals.recentTxCount / model.normalizers.interactionTxCount);
   
   // Stablecoin × Loan history (stable holdings + good loans = trustworthy)
   const stabilityInteraction = (signals.stablecoinHoldingScore / 100) * (signals.loanHistoryScore / 100);
   
   // Combined interaction score (0-100)
   const interactionScore = Math.min(100, 
-    (ageActivityInteraction * 30) + (stabilityInteraction * 70)
+    (ageActivityInteraction * model.interaction.ageActivity * 100) +
+    (stabilityInteraction * model.interaction.stability * 100)
   );
   
   return interactionScore;
@@ -48,48 +39,116 @@ function calculateInteractionScore(signals: Signals): number {
 /**
  * Normalize features to 0-1 range (ML preprocessing)
  */
-function normalizeFeatures(signals: Signals): {
+function normalizeFeatures(signals: Signals, model: ModelDefinition): {
   walletAgeNorm: number;
   recentTxNorm: number;
   stablecoinNorm: number;
   loanHistoryNorm: number;
+  counterpartyNorm: number;
+  decayedActivityNorm: number;
+  decayedBalanceNorm: number;
+  momentumNorm: number;
 } {
   return {
-    // Normalize wallet age (0-365 days -> 0-1)
-    walletAgeNorm: Math.min(1, signals.walletAge / 365),
+    // Normalize wallet age (0-walletAgeDays days -> 0-1)
+    walletAgeNorm: Math.min(1, signals.walletAge / model.normalizers.walletAgeDays),
     
-    // Normalize transaction count (0-100 txs -> 0-1)
-    recentTxNorm: Math.min(1, signals.recentTxCount / 100),
+    // Normalize transaction count (0-recentTxCount txs -> 0-1)
+    recentTxNorm: Math.min(1, signals.recentTxCount / model.normalizers.recentTxCount),
     
     // Stablecoin already 0-100, normalize to 0-1
     stablecoinNorm: signals.stablecoinHoldingScore / 100,
     
     // Loan history already 0-100, normalize to 0-1
     loanHistoryNorm: signals.loanHistoryScore / 100,
+
+    // Counterparty score already 0-100 (missing on signals recorded before it existed)
+    counterpartyNorm: (signals.counterpartyScore ?? 0) / 100,
+
+    // Decayed activity on the same scale as the 30-day count (missing on older signals, like the rest below)
+    decayedActivityNorm: Math.min(1, (signals.decayedActivity ?? 0) / model.normalizers.recentTxCount),
+
+    // Recency-weighted stablecoin balance, scored like the holdings signal ($1000+ = 1)
+    decayedBalanceNorm: Math.min(1, (signals.decayedStablecoinBalanceUsd ?? 0) / 1000),
+
+    // Score trend, -momentumPoints..+momentumPoints -> -1..1
+    momentumNorm: Math.max(-1, Math.min(1, (signals.scoreMomentum ?? 0) / model.normalizers.momentumPoints)),
   };
 }
 
+/**
+ * Model inputs, each normalized to 0-1 (shared by scoring and the training CLI)
+ */
+export function modelFeatures(signals: Signals, model: ModelDefinition): Record<ModelFeature, number> {
+  const normalized = normalizeFeatures(signals, model);
+  return {
+    walletAge: normalized.walletAgeNorm,
+    recentTxCount: normalized.recentTxNorm,
+    stablecoinHolding: normalized.stablecoinNorm,
+    loanHistory: normalized.loanHistoryNorm,
+    interactionScore: calculateInteractionScore(signals, model) / 100,
+    counterpartyDiversity: normalized.counterpartyNorm,
+    decayedActivity: normalized.decayedActivityNorm,
+    decayedBalance: normalized.decayedBalanceNorm,
+    momentum: normalized.momentumNorm,
+  };
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+/**
+ * Repayment probability (0-1) of a logistic model for normalized features
+ */
+export function logisticProbability(
+  features: Record<ModelFeature, number>,
+  intercept: number,
+  coefficients: Record<ModelFeature, number>
+): number {
+  let z = intercept;
+  for (const feature of Object.keys(coefficients) as ModelFeature[]) {
+    z += coefficients[feature] * features[feature];
+  }
+  return sigmoid(z);
+}
+
 /**
  * ML-based credit score prediction
  * Uses weighted linear combination with interaction terms
  * This is a simplified ML model - production would use neural networks
  */
-export function predictCreditScore(signals: Signals): number {
+export function predictCreditScore(signals: Signals, model: ModelDefinition): number {
+  if (model.type === "treeEnsemble") {
+    const output = evaluateEnsemble(model, ensembleInputs(model, signals, modelFeatures(signals, model)));
+    return Math.round(ensembleScore(model, output));
+  }
+
+  if (model.type === "logistic") {
+    // Trained models output a repayment probability; the score is that probability in percent
+    const probability = logisticProbability(modelFeatures(signals, model), model.intercept, model.coefficients);
+    return Math.round(probability * 100);
+  }
+
+  const weights = model.weights;
+
   // Step 1: Normalize features (ML preprocessing)
-  const normalized = normalizeFeatures(signals);
+  const normalized = normalizeFeatures(signals, model);
   
   // Step 2: Calculate interaction score (feature engineering)
-  const interactionScore = calculateInteractionScore(signals);
+  const interactionScore = calculateInteractionScore(signals, model);
   const interactionNorm = interactionScore / 100;
   
   // Step 3: Weighted linear combination (simplified ML model)
   // In production, this would be a neural network or gradient boosting model
   const weightedScore = 
-    (normalized.walletAgeNorm * MODEL_WEIGHTS.walletAge * 100) +
-    (normalized.recentTxNorm * MODEL_WEIGHTS.recentTxCount * 100) +
-    (normalized.stablecoinNorm * MODEL_WEIGHTS.stablecoinHolding * 100) +
-    (normalized.loanHistoryNorm * MODEL_WEIGHTS.loanHistory * 100) +
-    (interactionNorm * MODEL_WEIGHTS.interactionScore * 100);
+    (normalized.walletAgeNorm * weights.walletAge * 100) +
+    (normalized.recentTxNorm * weights.recentTxCount * 100) +
+    (normalized.stablecoinNorm * weights.stablecoinHolding * 100) +
+    (normalized.loanHistoryNorm * weights.loanHistory * 100) +
+    (interactionNorm * weights.interactionScore * 100) +
+    (normalized.counterpartyNorm * weights.counterpartyDiversity * 100) +
+    (normalized.decayedActivityNorm * weights.decayedActivity * 100) +
+    (normalized.decayedBalanceNorm * weights.decayedBalance * 100) +
+    (normalized.momentumNorm * weights.momentum * 100);
   
   // Step 4: Apply activation function (sigmoid-like for 0-100 range)
   // This ensures score stays in valid range and handles edge cases
@@ -102,43 +161,137 @@ export function predictCreditScore(signals: Signals): number {
  * Get feature importance (ML interpretability)
  * Shows which features contribute most to the score
  */
-export function getFeatureImportance(signals: Signals): {
+export function getFeatureImportance(signals: Signals, model: ModelDefinition): {
   feature: string;
   contribution: number;
   percentage: number;
 }[] {
-  const normalized = normalizeFeatures(signals);
-  const interactionScore = calculateInteractionScore(signals);
+  if (model.type === "logistic") {
+    return getLogisticFeatureImportance(signals, model);
+  }
+  if (model.type === "treeEnsemble") {
+    return getEnsembleFeatureImportance(signals, model);
+  }
+
+  const weights = model.weights;
+  const normalized = normalizeFeatures(signals, model);
+  const interactionScore = calculateInteractionScore(signals, model);
   const interactionNorm = interactionScore / 100;
   
   const contributions = [
     {
       feature: "Wallet Age",
-      contribution: normalized.walletAgeNorm * MODEL_WEIGHTS.walletAge * 100,
-      percentage: MODEL_WEIGHTS.walletAge * 100,
+      contribution: normalized.walletAgeNorm * weights.walletAge * 100,
+      percentage: weights.walletAge * 100,
     },
     {
       feature: "Transaction Activity",
-      contribution: normalized.recentTxNorm * MODEL_WEIGHTS.recentTxCount * 100,
-      percentage: MODEL_WEIGHTS.recentTxCount * 100,
+      contribution: normalized.recentTxNorm * weights.recentTxCount * 100,
+      percentage: weights.recentTxCount * 100,
     },
     {
       feature: "Stablecoin Holdings",
-      contribution: normalized.stablecoinNorm * MODEL_WEIGHTS.stablecoinHolding * 100,
-      percentage: MODEL_WEIGHTS.stablecoinHolding * 100,
+      contribution: normalized.stablecoinNorm * weights.stablecoinHolding * 100,
+      percentage: weights.stablecoinHolding * 100,
     },
     {
       feature: "Loan History",
-      contribution: normalized.loanHistoryNorm * MODEL_WEIGHTS.loanHistory * 100,
-      percentage: MODEL_WEIGHTS.loanHistory * 100,
+      contribution: normalized.loanHistoryNorm * weights.loanHistory * 100,
+      percentage: weights.loanHistory * 100,
     },
     {
       feature: "Feature Interactions",
-      contribution: interactionNorm * MODEL_WEIGHTS.interactionScore * 100,
-      percentage: MODEL_WEIGHTS.interactionScore * 100,
+      contribution: interactionNorm * weights.interactionScore * 100,
+      percentage: weights.interactionScore * 100,
+    },
+    {
+      feature: "Counterparty Diversity",
+      contribution: normalized.counterpartyNorm * weights.counterpartyDiversity * 100,
+      percentage: weights.counterpartyDiversity * 100,
+    },
+    {
+      feature: "Recent Activity",
+      contribution: normalized.decayedActivityNorm * weights.decayedActivity * 100,
+      percentage: weights.decayedActivity * 100,
+    },
+    {
+      feature: "Recent Stablecoin Balance",
+      contribution: normalized.decayedBalanceNorm * weights.decayedBalance * 100,
+      percentage: weights.decayedBalance * 100,
+    },
+    {
+      feature: "Score Momentum",
+      contribution: normalized.momentumNorm * weights.momentum * 100,
+      percentage: weights.momentum * 100,
     },
   ];
   
   return contributions.sort((a, b) => b.contribution - a.contribution);
 }
 
+
+const FEATURE_LABELS: Record<ModelFeature, string> = {
+  walletAge: "Wallet Age",
+  recentTxCount: "Transaction Activity",
+  stablecoinHolding: "Stablecoin Holdings",
+  loanHistory: "Loan History",
+  interactionScore: "Feature Interactions",
+  counterpartyDiversity: "Counterparty Diversity",
+  decayedActivity: "Recent Activity",
+  decayedBalance: "Recent Stablecoin Balance",
+  momentum: "Score Momentum",
+};
+
+/**
+ * Feature importance for logistic models
+ * A feature's contribution is how many points the score loses when that
+ * feature is zeroed; its share of the total absolute coefficient is the percentage
+ */
+function getLogisticFeatureImportance(
+  signals: Signals,
+  model: Extract<ModelDefinition, { type: "logistic" }>
+): { feature: string; contribution: number; percentage: number }[] {
+  const features = modelFeatures(signals, model);
+  const fullScore = logisticProbability(features, model.intercept, model.coefficients) * 100;
+  const names = Object.keys(FEATURE_LABELS) as ModelFeature[];
+  const totalWeight = names.reduce((sum, name) => sum + Math.abs(model.coefficients[name]), 0);
+
+  const contributions = names.map((name) => {
+    const ablated = logisticProbability({ ...features, [name]: 0 }, model.intercept, model.coefficients) * 100;
+    return {
+      feature: FEATURE_LABELS[name],
+      contribution: fullScore - ablated,
+      percentage: totalWeight > 0 ? (Math.abs(model.coefficients[name]) / totalWeight) * 100 : 0,
+    };
+  });
+
+  return contributions.sort((a, b) => b.contribution - a.contribution);
+}
+
+/**
+ * Feature importance for tree ensembles, from this wallet's SHAP values
+ * SHAP values explain the raw output (log-odds for binary models), so the
+ * score's distance from the expected score is split in proportion to them;
+ * the percentage is each feature's share of the total absolute SHAP value
+ */
+function getEnsembleFeatureImportance(
+  signals: Signals,
+  model: TreeEnsembleModel
+): { feature: string; contribution: number; percentage: number }[] {
+  const { output, expected, contributions } = explainEnsemble(
+    model,
+    ensembleInputs(model, signals, modelFeatures(signals, model))
+  );
+  const scoreDelta = ensembleScore(model, output) - ensembleScore(model, expected);
+  const total = contributions.reduce((sum, value) => sum + value, 0);
+  const totalAbs = contributions.reduce((sum, value) => sum + Math.abs(value), 0);
+  const toPoints = Math.abs(total) > 1e-9 ? scoreDelta / total : 0;
+
+  return model.features
+    .map((feature, i) => ({
+      feature: feature.label ?? ("signal" in feature ? feature.signal : FEATURE_LABELS[feature.modelFeature]),
+      contribution: contributions[i] * toPoints,
+      percentage: totalAbs > 0 ? (Math.abs(contributions[i]) / totalAbs) * 100 : 0,
+    }))
+    .sort((a, b) => b.contribution - a.contribution);
+}
@@ -0,0 +1,203 @@
+import { promises as fs, watch, FSWatcher } from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { NUMERIC_SIGNALS } from "./signals.js";
+import { compileEnsemble } from "./tree-ensemble.js";
+import type { ModelRouting } from "./score.js";
+
+const tierCutoffsSchema = z
+  .object({
+    A: z.number().min(0).max(100),
+    B: z.number().min(0).max(100),
+  })
+  .refine((cutoffs) => cutoffs.A > cutoffs.B, "Tier A cutoff must be above tier B");
+
+// One value per model input; every input is normalized to 0-1 before use, except
+// momentum, which is signed (-1 to 1) so a flat history adds nothing
+const featureValuesSchema = z.object({
+  walletAge: z.number(),
+  recentTxCount: z.number(),
+  stablecoinHolding: z.number(),
+  loanHistory: z.number(),
+  interactionScore: z.number(),
+  counterpartyDiversity: z.number().default(0), // absent from models that predate the signal
+  decayedActivity: z.number().default(0), // the decayed features and momentum are absent from older models too
+  decayedBalance: z.number().default(0),
+  momentum: z.number().default(0),
+});
+
+const modelBaseSchema = z.object({
+  version: z.string().min(1),
+  description: z.string().optional(),
+  normalizers: z.object({
+    walletAgeDays: z.number().positive(), // wallet age that counts as fully mature
+    recentTxCount: z.number().positive(), // 30-day tx count that counts as fully active
+    interactionTxCount: z.number().positive(), // tx divisor in the age × activity interaction
+    momentumPoints: z.number().positive().default(20), // score change over the history that counts as full momentum
+  }),
+  interaction: z.object({
+    ageActivity: z.number(),
+    stability: z.number(),
+  }),
+  tierCutoffs: tierCutoffsSchema,
+});
+
+// Score = weighted sum of the features, clamped to 0-100
+const linearModelSchema = modelBaseSchema.extend({
+  type: z.literal("linear"),
+  weights: featureValuesSchema,
+});
+
+// Score = 100 × P(repaid), as fitted by the training CLI (src/cli/train.ts)
+const logisticModelSchema = modelBaseSchema.extend({
+  type: z.literal("logistic"),
+  intercept: z.number(),
+  coefficients: featureValuesSchema,
+});
+
+// Where a tree input comes from: a raw signal (e.g. wallet age in days) or a normalized model feature
+const treeFeatureSchema = z.union([
+  z.object({ name: z.string().min(1), label: z.string().optional(), signal: z.enum(NUMERIC_SIGNALS) }),
+  z.object({
+    name: z.string().min(1),
+    label: z.string().optional(),
+    modelFeature: featureValuesSchema.keyof(),
+  }),
+]);
+
+// Gradient-boosted trees exported from XGBoost or LightGBM (see tree-ensemble.ts)
+const treeEnsembleModelSchema = modelBaseSchema.extend({
+  type: z.literal("treeEnsemble"),
+  format: z.enum(["xgboost", "lightgbm"]),
+  objective: z.enum(["binary", "regression"]), // binary: score = 100 × sigmoid(output); regression: score = output
+  baseMargin: z.number().default(0), // added to the summed tree outputs (logit of XGBoost's base_score)
+  features: z.array(treeFeatureSchema).min(1), // the dump's feature i is features[i]
+  trees: z.unknown(), // the dump as exported
+});
+
+const modelSchema = z.discriminatedUnion("type", [linearModelSchema, logisticModelSchema, treeEnsembleModelSchema]);
+
+const manifestSchema = z.object({
+  active: z.string().min(1), // the champion
+  challenger: z
+    .object({
+      version: z.string().min(1),
+      percent: z.number().min(0).max(100), // share of wallets routed to it
+    })
+    .optional(),
+});
+
+export type ModelDefinition = z.infer<typeof modelSchema>;
+export type ModelFeature = keyof z.infer<typeof featureValuesSchema>;
+export type TreeEnsembleModel = Extract<ModelDefinition, { type: "treeEnsemble" }>;
+export type TreeFeature = z.infer<typeof treeFeatureSchema>;
+
+export interface ModelRegistry {
+  /** Champion model, used for new scores of every wallet not routed to the challenger */
+  getActive(): ModelDefinition;
+  /** Champion plus the challenger under evaluation, if any */
+  getRouting(): ModelRouting;
+  get(version: string): ModelDefinition | undefined;
+  list(): ModelDefinition[];
+  /** Re-read every model file and the manifest; keeps the previous state if anything is invalid */
+  reload(): Promise<void>;
+  close(): void;
+}
+
+const MANIFEST_FILE = "manifest.json";
+
+interface RegistryState {
+  models: Map<string, ModelDefinition>;
+  active: string;
+  challenger: { version: string; percent: number } | null;
+}
+
+async function readModels(dir: string): Promise<RegistryState> {
+  const models = new Map<string, ModelDefinition>();
+  const files = (await fs.readdir(dir)).filter((file) => file.endsWith(".json") && file !== MANIFEST_FILE);
+
+  for (const file of files) {
+    const raw = JSON.parse(await fs.readFile(path.join(dir, file), "utf8"));
+    const model = modelSchema.parse(raw);
+    if (model.type === "treeEnsemble") {
+      compileEnsemble(model); // reject a malformed dump at load rather than on the first score
+    }
+    if (models.has(model.version)) {
+      throw new Error(`Duplicate model version ${model.version} in ${file}`);
+    }
+    models.set(model.version, model);
+  }
+
+  const manifest = manifestSchema.parse(
+    JSON.parse(await fs.readFile(path.join(dir, MANIFEST_FILE), "utf8"))
+  );
+  if (!models.has(manifest.active)) {
+    throw new Error(`Active model ${manifest.active} not found in ${dir}`);
+  }
+  if (manifest.challenger && !models.has(manifest.challenger.version)) {
+    throw new Error(`Challenger model ${manifest.challenger.version} not found in ${dir}`);
+  }
+  if (manifest.challenger?.version === manifest.active) {
+    throw new Error(`Challenger model ${manifest.active} is also the active model`);
+  }
+
+  return { models, active: manifest.active, challenger: manifest.challenger ?? null };
+}
+
+const describeChallenger = (state: RegistryState) =>
+  state.challenger ? `${state.challenger.version} at ${state.challenger.percent}%` : "none";
+
+/**
+ * Load versioned model definitions from `dir` (one JSON file per model, plus
+ * manifest.json naming the active version and an optional challenger) and
+ * hot-reload them on change
+ */
+export async function loadModelRegistry(dir: string): Promise<ModelRegistry> {
+  let state = await readModels(dir);
+  console.log(
+    `Loaded models: ${[...state.models.keys()].join(", ")} (active: ${state.active}, challenger: ${describeChallenger(state)})`
+  );
+
+  const reload = async () => {
+    try {
+      const next = await readModels(dir);
+      if (next.active !== state.active) {
+        console.log(`Active model changed: ${state.active} -> ${next.active}`);
+      }
+      if (describeChallenger(next) !== describeChallenger(state)) {
+        console.log(`Challenger changed: ${describeChallenger(state)} -> ${describeChallenger(next)}`);
+      }
+      state = next;
+    } catch (error) {
+      console.error("Model reload failed, keeping previous models:", error);
+    }
+  };
+
+  // Editors often emit several events per save, so debounce reloads
+  let reloadTimer: NodeJS.Timeout | null = null;
+  let watcher: FSWatcher | null = null;
+  try {
+    watcher = watch(dir, () => {
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(reload, 250);
+    });
+  } catch (error) {
+    console.warn(`Model hot-reload disabled, cannot watch ${dir}:`, error);
+  }
+
+  return {
+    getActive: () => state.models.get(state.active)!,
+    getRouting: () => ({
+      champion: state.models.get(state.active)!,
+      challenger: state.challenger ? state.models.get(state.challenger.version)! : null,
+      challengerPercent: state.challenger?.percent ?? 0,
+    }),
+    get: (version) => state.models.get(version),
+    list: () => [...state.models.values()],
+    reload,
+    close() {
+      watcher?.close();
+      if (reloadTimer) clearTimeout(reloadTimer);
+    },
+  };
+}
@@ -1,96 +1,133 @@
 import { ethers } from "ethers";
-import { Signals } from "./signals";
+import type { Signals } from "./signals.js";
 import { predictCreditScore } from "./ml-model.js";
+import type { ModelDefinition } from "./model-registry.js";
+import { HIGH_SYBIL_RISK } from "./sybil.js";
 
 export interface ScoreResult {
   score: number; // 0-100
   tier: "A" | "B" | "C";
   method: "ml" | "heuristic"; // Track which method was used
+  modelVersion: string; // Model definition that produced the score
+}
+
+export type ModelVariant = "champion" | "challenger";
+
+/**
+ * Which models serve scores: the champion for most wallets, and optionally a
+ * challenger for `challengerPercent` of them while it's evaluated on live traffic
+ */
+export interface ModelRouting {
+  champion: ModelDefinition;
+  challenger: ModelDefinition | null;
+  challengerPercent: number; // 0-100
+}
+
+export interface RoutedScoreResult extends ScoreResult {
+  modelVariant: ModelVariant;
+  shadow: ScoreResult | null; // the other model's prediction for the same signals, null without a challenger
+}
+
+/**
+ * Deterministically assign a wallet to the champion or the challenger
+ * The wallet's bucket (0-9999) is hashed with the challenger's version, so raising
+ * the percentage only adds wallets, and each new challenger draws a fresh sample
+ */
+export function assignModel(address: string, routing: ModelRouting): { variant: ModelVariant; model: ModelDefinition } {
+  if (!routing.challenger || routing.challengerPercent <= 0) {
+    return { variant: "champion", model: routing.champion };
+  }
+  const bucket = parseInt(ethers.id(`${routing.challenger.version}:${address.toLowerCase()}`).slice(2, 10), 16) % 10000;
+  return bucket < routing.challengerPercent * 100
+    ? { variant: "challenger", model: routing.challenger }
+    : { variant: "champion", model: routing.champion };
+}
+
+/**
+ * Compute the credit score with the model the wallet is routed to
+ * The other model scores the same signals too, so the two can be compared on
+ * live traffic; only the assigned model's score is served
+ */
+export function computeScore(signals: Signals, routing: ModelRouting, address: string): RoutedScoreResult {
+  const { variant, model } = assignModel(address, routing);
+  const other = variant === "challenger" ? routing.champion : routing.challenger;
+  return {
+    ...scoreWithModel(signals, model),
+    modelVariant: variant,
+    shadow: other ? scoreWithModel(signals, other) : null,
+  };
 }
 
 /**
  * Compute credit score from signals using AI/ML model
- * Tiers: A≥75, B≥55, else C
+ * Tiers come from the model's cutoffs (A≥75, B≥55 for linear-v1), else C
+ * Wallets in a high-risk sybil cluster are held at tier C whatever their score
  * Uses ML-based prediction with feature interactions
  */
-export function computeScore(signals: Signals): ScoreResult {
+export function scoreWithModel(signals: Signals, model: ModelDefinition): ScoreResult {
   // Use ML model for AI-based scoring
-  const score = predictCreditScore(signals);
+  const score = predictCreditScore(signals, model);
 
   // Determine tier
   let tier: "A" | "B" | "C";
-  if (score >= 75) {
+  if (score >= model.tierCutoffs.A) {
     tier = "A";
-  } else if (score >= 55) {
+  } else if (score >= model.tierCutoffs.B) {
     tier = "B";
   } else {
     tier = "C";
   }
+  if (signals.sybilRisk >= HIGH_SYBIL_RISK) {
+    tier = "C";
+  }
+
+  return { score, tier, method: "ml", modelVersion: model.version };
+}
+
+/**
+ * Generate a fresh random salt for a score commitment
+ */
+export function generateSalt(): string {
+  return ethers.hexlify(ethers.randomBytes(32));
+}
 
-  return { score, tier, method: "ml" };
+/**
+ * Salted commitment to a score: keccak256(address, score, salt, keccak256(modelVersion))
+ * Without the salt the 101 possible scores can't be brute-forced from the on-chain hash;
+ * binding the model version lets auditors tell which model produced each tier
+ */
+export function scoreCommitment(address: string, score: number, salt: string, modelVersion: string): string {
+  return ethers.solidityPackedKeccak256(
+    ["address", "uint8", "bytes32", "bytes32"],
+    [address, score, salt, ethers.id(modelVersion)]
+  );
 }
 
 /**
- * Commit score hash to on-chain registry
+ * Check a revealed (score, salt, modelVersion) against the hash stored in the registry
  */
-export async function commitHash(
+export async function verifyCommitment(
   address: string,
   score: number,
-  tier: "A" | "B" | "C",
-  wallet: ethers.Wallet,
+  salt: string,
+  modelVersion: string,
+  provider: ethers.Provider,
   registryAddress: string
-): Promise<string> {
-  try {
-    // Create hash: sha256(address:score) as per spec
-    // Using keccak256 (Ethereum standard) which is equivalent to SHA-256 for this purpose
-    const scoreData = ethers.keccak256(
-      ethers.toUtf8Bytes(`${address}:${score}`)
-    );
-
-    // Convert tier to uint8: A=2, B=1, C=0
-    const tierNum = tier === "A" ? 2 : tier === "B" ? 1 : 0;
-
-    console.log(`Committing score for ${address}:`, {
-      score,
-      tier,
-      tierNum,
-      scoreHash: scoreData,
-      registryAddress,
-      walletAddress: wallet.address,
-    });
-
-    // Minimal ABI for setScoreHash
-    const abi = [
-      "function setScoreHash(address user, bytes32 scoreHash, uint8 tier) external",
-    ];
+): Promise<{ valid: boolean; committedHash: string; tier: "A" | "B" | "C" | null }> {
+  const abi = [
+    "function getScore(address user) view returns (bytes32 scoreHash, uint8 tier)",
+  ];
+  const registry = new ethers.Contract(registryAddress, abi, provider);
+  const [committedHash, tierNum] = await registry.getScore(address);
 
-    const contract = new ethers.Contract(registryAddress, abi, wallet);
-    
-    // Estimate gas first to catch errors early
-    try {
-      const gasEstimate = await contract.setScoreHash.estimateGas(address, scoreData, tierNum);
-      console.log(`Gas estimate: ${gasEstimate.toString()}`);
-    } catch (gasError: any) {
-      console.error("Gas estimation failed:", gasError);
-      throw new Error(`Transaction would revert: ${gasError.reason || gasError.message || "Unknown error"}`);
-    }
-
-    const tx = await contract.setScoreHash(address, scoreData, tierNum);
-    console.log(`Transaction sent: ${tx.hash}`);
-    const receipt = await tx.wait();
-    console.log(`Transaction confirmed in block ${receipt.blockNumber}`);
-
-    return tx.hash;
-  } catch (error: any) {
-    console.error("Error in commitHash:", error);
-    // Extract revert reason if available
-    if (error.reason) {
-      throw new Error(`Transaction reverted: ${error.reason}`);
-    } else if (error.message) {
-      throw new Error(`Transaction failed: ${error.message}`);
-    } else {
-      throw new Error(`Transaction failed: ${JSON.stringify(error)}`);
-    }
+  if (committedHash === ethers.ZeroHash) {
+    return { valid: false, committedHash, tier: null };
   }
-}
 
+  const tier = Number(tierNum) === 2 ? "A" : Number(tierNum) === 1 ? "B" : "C";
+  return {
+    valid: scoreCommitment(address, score, salt, modelVersion) === committedHash,
+    committedHash,
+    tier,
+  };
+}
@@ -1,313 +1,742 @@
 import { ethers } from "ethers";
+import type { BlockRef, IndexStore } from "../indexer/store.js";
+import type { Stablecoin } from "./stablecoins.js";
+import { detectSybilCluster } from "./sybil.js";
+
+/**
+ * eoa: no code; smartAccount: contract wallet (or an EOA delegating to one);
+ * multisig: Safe-style wallet that needs more than one signature
+ */
+export type AccountType = "eoa" | "smartAccount" | "multisig";
 
 export interface Signals {
-  walletAge: number; // days since first tx
-  recentTxCount: number; // transactions in last 30 days
+  accountType: AccountType;
+  walletAge: number; // days since first tx or smart-account operation
+  recentTxCount: number; // transactions in last 30 days, including smart-account operations
+  decayedActivity: number; // every transaction ever, weighted by recency (30-day half-life)
   stablecoinHoldingScore: number; // 0-100 based on stablecoin balance
+  stablecoinBalanceUsd: number; // average weighted stablecoin holdings over the lookback window
+  decayedStablecoinBalanceUsd: number; // same window, recent balances weighted more (7-day half-life)
   loanHistoryScore: number; // 0-100 based on loan repayment history
+  repaidLoans: number; // loans fully repaid without any liquidation
+  partiallyLiquidatedLoans: number; // loans liquidated at least once but not down to zero debt
+  liquidatedLoans: number; // loans whose debt was cleared by liquidation
+  activeLoans: number; // open loans that were never liquidated
+  distinctCounterparties: number; // addresses transacted or exchanged tokens with
+  contractInteractionShare: number; // 0-1, share of interactions whose counterparty is a contract
+  inboundOutboundRatio: number; // USD value received / sent, native and stablecoin (capped at 100; 0 without any flows)
+  counterpartyScore: number; // 0-100 based on counterparty diversity, protocol use and balanced flows
+  sybilRisk: number; // 0-1, how strongly the wallet is linked to others by shared funding or mutual transfers
+  sybilClusterId: string | null; // cluster of linked wallets, null when the wallet isn't linked to any
+  scoreMomentum: number; // score points gained (or lost, if negative) over the recent score history
+}
+
+/**
+ * Signals with numeric values, the ones a model or a counterfactual can use directly
+ */
+export type NumericSignal = { [K in keyof Signals]: Signals[K] extends number ? K : never }[keyof Signals];
+
+export const NUMERIC_SIGNALS = [
+  "walletAge",
+  "recentTxCount",
+  "decayedActivity",
+  "stablecoinHoldingScore",
+  "stablecoinBalanceUsd",
+  "decayedStablecoinBalanceUsd",
+  "loanHistoryScore",
+  "repaidLoans",
+  "partiallyLiquidatedLoans",
+  "liquidatedLoans",
+  "activeLoans",
+  "distinctCounterparties",
+  "contractInteractionShare",
+  "inboundOutboundRatio",
+  "counterpartyScore",
+  "sybilRisk",
+  "scoreMomentum",
+] as const satisfies readonly NumericSignal[];
+
+/**
+ * Where a signal's value came from: read from chain/index data ("real"), a
+ * neutral placeholder because its source isn't configured ("default"), or a
+ * placeholder because reading it failed ("fallback")
+ */
+export type SignalProvenance = "real" | "default" | "fallback";
+
+export interface SignalOrigin {
+  provenance: SignalProvenance;
+  confidence: number; // 0-1
+  reason: string | null; // why the signal isn't real
+}
+
+export type SignalName =
+  | "accountType"
+  | "walletAge"
+  | "recentTxCount"
+  | "stablecoinHolding"
+  | "loanHistory"
+  | "counterparties"
+  | "sybil";
+
+export interface SignalQuality {
+  degraded: boolean; // any signal isn't real
+  confidence: number; // mean of the per-signal confidences
+  signals: Record<SignalName, SignalOrigin>;
+}
+
+export interface CollectedSignals {
+  signals: Signals;
+  quality: SignalQuality;
+  counterparties: string[]; // addresses the wallet transacted or exchanged tokens with directly
+}
+
+/**
+ * Loan counts by outcome, as exposed in Signals
+ */
+type LoanHistoryCounts = Pick<
+  Signals,
+  "repaidLoans" | "partiallyLiquidatedLoans" | "liquidatedLoans" | "activeLoans"
+>;
+
+/**
+ * Chain and index sources that signals are read from
+ */
+export interface SignalSources {
+  provider: ethers.Provider;
+  store: IndexStore; // populated by the background indexer
+  stablecoins: Stablecoin[];
+  stablecoinLookbackDays: number;
+  nativeUsdPrice: number; // USD per native token, so native and stablecoin flows add up
+  coreAddress?: string; // LendingCore whose loans are indexed; loan history is a default without it
+  asOf?: BlockRef; // compute signals as of this block instead of the latest indexed one
+  previousScores?: number[]; // the wallet's recent scores before `asOf`, oldest first; no momentum without them
+}
+
+/**
+ * Resolve a block tag (number, hex quantity or block hash) to the canonical block to pin signals to
+ * Returns null when the chain has no such block, or the hash is from a block that was reorged out
+ */
+export async function resolveBlockTag(provider: ethers.Provider, blockTag: string): Promise<BlockRef | null> {
+  const isHash = /^0x[0-9a-fA-F]{64}$/.test(blockTag);
+  const tag = isHash ? blockTag : /^\d+$/.test(blockTag) ? parseInt(blockTag, 10) : blockTag;
+  const block = await provider.getBlock(tag);
+  if (!block || !block.hash) {
+    return null;
+  }
+  if (isHash) {
+    const canonical = await provider.getBlock(block.number);
+    if (canonical?.hash !== block.hash) {
+      return null;
+    }
+  }
+  return { number: block.number, hash: block.hash, timestamp: block.timestamp };
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// LendingCore lends 6-decimal USDC
+const DEBT_DECIMALS = 6;
+
+// Outcomes lose half their weight every 180 days
+const LOAN_HALF_LIFE_DAYS = 180;
+
+// Transactions lose half their weight every 30 days, balances every 7
+const ACTIVITY_HALF_LIFE_DAYS = 30;
+const BALANCE_HALF_LIFE_DAYS = 7;
+
+// Steps collectSignals reports through `onProgress`
+export const SIGNAL_STEP_COUNT = 7;
+
+// Distinct counterparties that count as a fully diverse wallet
+const DIVERSE_COUNTERPARTIES = 20;
+
+// EIP-7702 delegation designator: an EOA whose code points at a smart-account implementation
+const DELEGATION_PREFIX = "0xef0100";
+
+const SAFE_THRESHOLD_ABI = ["function getThreshold() view returns (uint256)"];
+
+// Most frequent counterparties checked for contract code (one eth_getCode each)
+const MAX_CODE_CHECKS = 25;
+
+const CONFIDENCE: Record<SignalProvenance, number> = { real: 1, default: 0.5, fallback: 0 };
+
+const origin = (provenance: SignalProvenance, reason: string | null = null): SignalOrigin => ({
+  provenance,
+  confidence: CONFIDENCE[provenance],
+  reason,
+});
+
+/**
+ * Summarize per-signal origins into the quality attached to a score
+ */
+function signalQuality(signals: Record<SignalName, SignalOrigin>): SignalQuality {
+  const origins = Object.values(signals);
+  const confidence = origins.reduce((sum, entry) => sum + entry.confidence, 0) / origins.length;
+  return {
+    degraded: origins.some((entry) => entry.provenance !== "real"),
+    confidence: Math.round(confidence * 100) / 100,
+    signals,
+  };
 }
 
 /**
  * Collect real on-chain signals for a wallet address
- * Queries actual blockchain data to calculate creditworthiness
+ * The account type is read from the wallet's code, since contract wallets act
+ * through user operations and Safe executions rather than transactions they send
+ * Wallet age, activity and loan history come from the local index;
+ * stablecoin balances are read from the chain at the indexed block and
+ * averaged back over the lookback window using indexed transfers
+ * Every signal's provenance is reported alongside it, so scores built on
+ * placeholders can be flagged instead of passing for real data
+ * `onProgress` is called with the number of steps done (out of SIGNAL_STEP_COUNT)
  */
 export async function collectSignals(
   address: string,
-  provider: ethers.Provider,
-  coreAddress?: string,
-  usdcAddress?: string
-): Promise<Signals> {
+  sources: SignalSources,
+  onProgress?: (signalsDone: number) => void
+): Promise<CollectedSignals> {
+  const { store, asOf } = sources;
   try {
-    // 1. Get wallet age (days since first transaction)
-    const walletAge = await getWalletAge(address, provider);
-
-    // 2. Get recent transaction count (last 30 days)
-    const recentTxCount = await getRecentTxCount(address, provider);
-
-    // 3. Get stablecoin holding score (USDC balance)
-    const stablecoinHoldingScore = await getStablecoinScore(address, provider, usdcAddress);
-
-    // 4. Get loan history score (if core address provided)
-    const loanHistoryScore = await getLoanHistoryScore(address, provider, coreAddress);
+    const counterparties = getCounterparties(address, store, asOf);
+
+    // Index-derived signals are only meaningful once something has been indexed
+    const indexOrigin = asOf || store.getCheckpoint() ? origin("real") : origin("default", "Nothing indexed yet");
+
+    // 1. Get account type from the wallet's code
+    const { accountType, origin: accountOrigin } = await getAccountType(address, sources, asOf);
+    onProgress?.(1);
+
+    // 2. Get wallet age (days since first transaction or smart-account operation)
+    const walletAge = getWalletAge(address, store, asOf);
+    onProgress?.(2);
+
+    // 3. Get recent transaction count (last 30 days) and recency-weighted activity
+    const { recentTxCount, decayedActivity } = getActivity(address, store, asOf);
+    onProgress?.(3);
+
+    // 4. Get stablecoin holding score (average USD value of registered stablecoins)
+    const {
+      score: stablecoinHoldingScore,
+      averageUsd: stablecoinBalanceUsd,
+      decayedUsd: decayedStablecoinBalanceUsd,
+      origin: stablecoinOrigin,
+    } = await getStablecoinScore(address, sources, asOf);
+    onProgress?.(4);
+
+    // 5. Get loan history score from indexed LendingCore events
+    const { score: loanHistoryScore, counts } = getLoanHistory(address, store, asOf);
+    onProgress?.(5);
+
+    // 6. Get counterparty diversity from indexed transactions and transfers
+    const { origin: counterpartyOrigin, ...counterpartySignals } = await getCounterpartySignals(
+      address,
+      sources,
+      asOf
+    );
+    onProgress?.(6);
+
+    // 7. Get sybil cluster risk from shared funding and mutual transfers
+    const { origin: sybilOrigin, ...sybilSignals } = await getSybilSignals(address, sources, asOf);
+    onProgress?.(7);
 
     return {
-      walletAge,
-      recentTxCount,
-      stablecoinHoldingScore,
-      loanHistoryScore,
+      signals: {
+        accountType,
+        walletAge,
+        recentTxCount,
+        decayedActivity,
+        stablecoinHoldingScore,
+        stablecoinBalanceUsd,
+        decayedStablecoinBalanceUsd,
+        loanHistoryScore,
+        ...counts,
+        ...counterpartySignals,
+        ...sybilSignals,
+        scoreMomentum: getScoreMomentum(sources.previousScores ?? []),
+      },
+      quality: signalQuality({
+        accountType: accountOrigin,
+        walletAge: indexOrigin,
+        recentTxCount: indexOrigin,
+        stablecoinHolding: stablecoinOrigin,
+        loanHistory: sources.coreAddress ? indexOrigin : origin("default", "LendingCore address not configured"),
+        counterparties: counterpartyOrigin,
+        sybil: sybilOrigin,
+      }),
+      counterparties,
     };
   } catch (error) {
     console.error("Error collecting signals:", error);
-    // Fallback to deterministic values if on-chain queries fail
-    return getFallbackSignals(address);
+    // Neutral placeholders, flagged so nothing downstream mistakes them for real data
+    const failed = origin("fallback", error instanceof Error ? error.message : "Signal collection failed");
+    return {
+      signals: getFallbackSignals(),
+      quality: signalQuality({
+        accountType: failed,
+        walletAge: failed,
+        recentTxCount: failed,
+        stablecoinHolding: failed,
+        loanHistory: failed,
+        counterparties: failed,
+        sybil: failed,
+      }),
+      counterparties: [],
+    };
   }
 }
 
 /**
- * Get wallet age in days (time since first transaction)
+ * Whether an indexed record is visible at `asOf` (everything is when no block is pinned)
  */
-async function getWalletAge(address: string, provider: ethers.Provider): Promise<number> {
+const visibleAt = (asOf?: BlockRef) => (record: { blockNumber: number }) =>
+  !asOf || record.blockNumber <= asOf.number;
+
+/**
+ * Addresses on the other side of the wallet's indexed transactions and token transfers
+ */
+export function getCounterparties(address: string, store: IndexStore, asOf?: BlockRef): string[] {
+  const self = address.toLowerCase();
+  const visible = visibleAt(asOf);
+  const found = new Set<string>();
+
+  for (const tx of store.getTransactions(address).filter(visible)) {
+    found.add(tx.from);
+    if (tx.to) found.add(tx.to);
+  }
+  for (const log of store.getTransfers(address).filter(visible)) {
+    found.add(log.args.from);
+    found.add(log.args.to);
+  }
+
+  found.delete(self);
+  found.delete(ethers.ZeroAddress); // mints and burns
+  return [...found];
+}
+
+/**
+ * Classify the wallet by its code at the indexed (or pinned) block
+ * A Safe-style wallet whose threshold is above one counts as a multisig;
+ * any other code, including an EIP-7702 delegation, is a smart account
+ */
+async function getAccountType(
+  address: string,
+  sources: SignalSources,
+  asOf?: BlockRef
+): Promise<{ accountType: AccountType; origin: SignalOrigin }> {
+  const reference = asOf || sources.store.getCheckpoint();
+  if (!reference) {
+    return { accountType: "eoa", origin: origin("default", "Nothing indexed yet") };
+  }
+
   try {
-    // Get the first transaction (oldest) by querying recent blocks
-    // For local networks, we'll use a simpler approach
-    const currentBlock = await provider.getBlockNumber();
-    
-    // Try to find first transaction by checking blocks backwards
-    // Limit to last 10000 blocks for performance
-    const searchLimit = Math.min(10000, currentBlock);
-    let firstTxBlock = currentBlock;
-    let found = false;
-
-    // Binary search for first transaction (more efficient)
-    let low = 0;
-    let high = searchLimit;
-    let attempts = 0;
-    const maxAttempts = 20; // Limit binary search attempts
-
-    while (low <= high && attempts < maxAttempts) {
-      attempts++;
-      const mid = Math.floor((low + high) / 2);
-      const blockNum = currentBlock - mid;
-      
-      if (blockNum < 0) break;
-
-      try {
-        const block = await provider.getBlock(blockNum, true);
-        if (block && block.transactions) {
-          // Check if address appears in any transaction
-          const hasTx = block.transactions.some((tx: any) => {
-            const txObj = typeof tx === 'string' ? null : tx;
-            return txObj && (
-              txObj.from?.toLowerCase() === address.toLowerCase() ||
-              txObj.to?.toLowerCase() === address.toLowerCase()
-            );
-          });
-
-          if (hasTx) {
-            firstTxBlock = blockNum;
-            found = true;
-            high = mid - 1; // Search earlier
-          } else {
-            low = mid + 1; // Search later
-          }
-        }
-      } catch (err) {
-        // Block might not exist, search later
-        low = mid + 1;
-      }
+    const code = await sources.provider.getCode(address, reference.number);
+    if (code === "0x") {
+      return { accountType: "eoa", origin: origin("real") };
+    }
+    if (code.startsWith(DELEGATION_PREFIX)) {
+      return { accountType: "smartAccount", origin: origin("real") };
     }
 
-    if (found) {
-      const firstBlock = await provider.getBlock(firstTxBlock);
-      if (firstBlock && firstBlock.timestamp) {
-        const now = Math.floor(Date.now() / 1000);
-        const daysSince = Math.floor((now - Number(firstBlock.timestamp)) / 86400);
-        return Math.max(1, daysSince); // At least 1 day
+    const safe = new ethers.Contract(address, SAFE_THRESHOLD_ABI, sources.provider);
+    try {
+      const threshold: bigint = await safe.getThreshold({ blockTag: reference.number });
+      return { accountType: threshold > 1n ? "multisig" : "smartAccount", origin: origin("real") };
+    } catch (error) {
+      // No getThreshold(): some other kind of contract wallet
+      if (ethers.isError(error, "CALL_EXCEPTION") || ethers.isError(error, "BAD_DATA")) {
+        return { accountType: "smartAccount", origin: origin("real") };
       }
+      throw error;
     }
-
-    // Fallback: assume wallet is at least 30 days old if we can't find first tx
-    return 30;
   } catch (error) {
-    console.error("Error getting wallet age:", error);
-    return 30; // Default fallback
+    console.error("Error detecting account type:", error);
+    const reason = error instanceof Error ? error.message : "Code lookup failed";
+    return { accountType: "eoa", origin: origin("fallback", reason) };
   }
 }
 
 /**
- * Get transaction count in last 30 days
+ * Get wallet age in days (time since first indexed transaction, token transfer
+ * or smart-account operation)
  */
-async function getRecentTxCount(address: string, provider: ethers.Provider): Promise<number> {
-  try {
-    const currentBlock = await provider.getBlockNumber();
-    const currentBlockData = await provider.getBlock(currentBlock);
-    if (!currentBlockData || !currentBlockData.timestamp) {
-      return 5; // Fallback
-    }
+function getWalletAge(address: string, store: IndexStore, asOf?: BlockRef): number {
+  const firstTx = store.getTransactions(address).find(visibleAt(asOf));
+  const firstTransfer = store.getTransfers(address).find(visibleAt(asOf));
+  const firstOperation = store.getAccountActivity(address).find(visibleAt(asOf));
+  const timestamps = [firstTx?.timestamp, firstTransfer?.timestamp, firstOperation?.timestamp].filter(
+    (ts): ts is number => ts !== undefined
+  );
+
+  if (timestamps.length === 0) {
+    return 0; // No activity in the indexed range
+  }
 
-    const thirtyDaysAgo = Number(currentBlockData.timestamp) - (30 * 24 * 60 * 60);
-    let txCount = 0;
-    let checkedBlocks = 0;
-    const maxBlocksToCheck = 10000; // Increased limit to cover more history
-
-    // Check recent blocks for transactions
-    for (let i = 0; i < maxBlocksToCheck && currentBlock - i >= 0; i++) {
-      try {
-        const blockNum = currentBlock - i;
-        const block = await provider.getBlock(blockNum, true);
-        
-        if (!block || !block.timestamp) break;
-        
-        // Stop if we've gone past 30 days
-        if (Number(block.timestamp) < thirtyDaysAgo) {
-          console.log(`Stopped at block ${blockNum}, timestamp ${block.timestamp} is before 30 days ago`);
-          break;
-        }
-
-        if (block.transactions) {
-          const relevantTxs = block.transactions.filter((tx: any) => {
-            const txObj = typeof tx === 'string' ? null : tx;
-            return txObj && (
-              txObj.from?.toLowerCase() === address.toLowerCase() ||
-              txObj.to?.toLowerCase() === address.toLowerCase()
-            );
-          });
-          txCount += relevantTxs.length;
-        }
-
-        checkedBlocks++;
-      } catch (err) {
-        // Skip block if error
-        continue;
-      }
-    }
+  const now = asOf ? asOf.timestamp : Math.floor(Date.now() / 1000);
+  const daysSince = Math.floor((now - Math.min(...timestamps)) / DAY_SECONDS);
+  return Math.max(1, daysSince); // At least 1 day
+}
 
-    console.log(`Found ${txCount} transactions in last 30 days (checked ${checkedBlocks} blocks)`);
-    return Math.max(0, txCount);
-  } catch (error) {
-    console.error("Error getting recent tx count:", error);
-    return 5; // Fallback
+/**
+ * Get transaction count in the 30 days before the latest indexed (or pinned) block,
+ * and every indexed transaction weighted by age (halved every ACTIVITY_HALF_LIFE_DAYS)
+ * A contract wallet rarely appears in a transaction itself, so its user operations
+ * and Safe executions count too; each transaction hash is counted once
+ */
+function getActivity(
+  address: string,
+  store: IndexStore,
+  asOf?: BlockRef
+): Pick<Signals, "recentTxCount" | "decayedActivity"> {
+  const reference = asOf || store.getCheckpoint();
+  if (!reference) {
+    return { recentTxCount: 0, decayedActivity: 0 };
+  }
+
+  const visible = visibleAt(reference);
+  const timestamps = new Map<string, number>();
+  for (const tx of store.getTransactions(address).filter(visible)) {
+    timestamps.set(tx.hash, tx.timestamp);
+  }
+  for (const log of store.getAccountActivity(address).filter(visible)) {
+    timestamps.set(log.txHash, log.timestamp);
+  }
+
+  const thirtyDaysAgo = reference.timestamp - 30 * DAY_SECONDS;
+  let recentTxCount = 0;
+  let decayedActivity = 0;
+  for (const timestamp of timestamps.values()) {
+    if (timestamp >= thirtyDaysAgo) recentTxCount++;
+    const ageDays = Math.max(0, reference.timestamp - timestamp) / DAY_SECONDS;
+    decayedActivity += Math.pow(0.5, ageDays / ACTIVITY_HALF_LIFE_DAYS);
+  }
+  return { recentTxCount, decayedActivity: Math.round(decayedActivity * 100) / 100 };
+}
+
+/**
+ * Score change from the oldest to the newest of the wallet's recent scores
+ */
+function getScoreMomentum(previousScores: number[]): number {
+  return previousScores.length < 2 ? 0 : previousScores[previousScores.length - 1] - previousScores[0];
+}
+
+const ERC20_BALANCE_ABI = ["function balanceOf(address owner) view returns (uint256)"];
+
+/**
+ * Time-weighted average balance (in whole tokens) over [end - lookback, end],
+ * plus the same average with weights halving every BALANCE_HALF_LIFE_DAYS back from `end`
+ * Starts from the balance at `reference` and walks indexed transfers backwards,
+ * undoing each one, so a deposit made just before scoring barely counts
+ */
+async function averageTokenBalance(
+  address: string,
+  coin: Stablecoin,
+  sources: SignalSources,
+  reference: BlockRef
+): Promise<{ average: number; decayed: number }> {
+  const holder = address.toLowerCase();
+  const token = new ethers.Contract(coin.address, ERC20_BALANCE_ABI, sources.provider);
+  let balance: bigint = await token.balanceOf(address, { blockTag: reference.number });
+
+  const end = reference.timestamp;
+  const start = end - sources.stablecoinLookbackDays * DAY_SECONDS;
+  const toTokens = (amount: bigint) => Number(ethers.formatUnits(amount < 0n ? 0n : amount, coin.decimals));
+  if (end <= start) {
+    return { average: toTokens(balance), decayed: toTokens(balance) };
   }
+
+  // Integral of the exponential weight over [from, to]
+  const decayRate = Math.LN2 / (BALANCE_HALF_LIFE_DAYS * DAY_SECONDS);
+  const decayWeight = (from: number, to: number) =>
+    (Math.exp(-decayRate * (end - to)) - Math.exp(-decayRate * (end - from))) / decayRate;
+
+  const transfers = sources.store
+    .getTransfers(address)
+    .filter(
+      (log) =>
+        log.address === coin.address.toLowerCase() &&
+        log.blockNumber <= reference.number &&
+        log.timestamp > start
+    )
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+
+  let weighted = 0;
+  let decayed = 0;
+  let cursor = end;
+  for (const log of transfers) {
+    weighted += toTokens(balance) * (cursor - log.timestamp);
+    decayed += toTokens(balance) * decayWeight(log.timestamp, cursor);
+    cursor = log.timestamp;
+    const value = BigInt(log.args.value);
+    if (log.args.to === holder) balance -= value;
+    if (log.args.from === holder) balance += value;
+  }
+  weighted += toTokens(balance) * (cursor - start);
+  decayed += toTokens(balance) * decayWeight(start, cursor);
+
+  return { average: weighted / (end - start), decayed: decayed / decayWeight(start, end) };
 }
 
 /**
- * Get stablecoin holding score (0-100) based on USDC balance
+ * Get stablecoin holding score (0-100) from the combined, weighted USD value
+ * of every registered stablecoin, averaged over the lookback window
  */
 async function getStablecoinScore(
   address: string,
-  provider: ethers.Provider,
-  usdcAddress?: string
-): Promise<number> {
-  if (!usdcAddress) {
-    return 50; // Default if no USDC address
+  sources: SignalSources,
+  asOf?: BlockRef
+): Promise<{ score: number; averageUsd: number; decayedUsd: number; origin: SignalOrigin }> {
+  const reference = asOf || sources.store.getCheckpoint();
+  if (sources.stablecoins.length === 0) {
+    return { score: 50, averageUsd: 0, decayedUsd: 0, origin: origin("default", "No stablecoins configured") };
+  }
+  if (!reference) {
+    return { score: 50, averageUsd: 0, decayedUsd: 0, origin: origin("default", "Nothing indexed yet") };
   }
 
   try {
-    // ERC20 balanceOf function
-    const erc20Abi = [
-      "function balanceOf(address owner) view returns (uint256)",
-      "function decimals() view returns (uint8)",
-    ];
-
-    const tokenContract = new ethers.Contract(usdcAddress, erc20Abi, provider);
-    const balance = await tokenContract.balanceOf(address);
-    const decimals = await tokenContract.decimals();
-
-    // Convert to human-readable amount
-    const balanceNum = Number(ethers.formatUnits(balance, decimals));
-
-    // Score based on USDC holdings (0-100)
-    // 0 USDC = 0 points, 1000+ USDC = 100 points
-    const score = Math.min(100, Math.floor(balanceNum / 10)); // 10 USDC = 1 point, max 100
-    return score;
+    const balances = await Promise.all(
+      sources.stablecoins.map(async (coin) => {
+        const { average, decayed } = await averageTokenBalance(address, coin, sources, reference);
+        return { average: average * coin.weight, decayed: decayed * coin.weight };
+      })
+    );
+    const averageUsd = balances.reduce((sum, value) => sum + value.average, 0);
+    const decayedUsd = balances.reduce((sum, value) => sum + value.decayed, 0);
+
+    // Score based on stablecoin holdings (0-100)
+    // $0 = 0 points, $1000+ = 100 points
+    const score = Math.min(100, Math.floor(averageUsd / 10)); // $10 = 1 point, max 100
+    return {
+      score,
+      averageUsd: Math.round(averageUsd * 100) / 100,
+      decayedUsd: Math.round(decayedUsd * 100) / 100,
+      origin: origin("real"),
+    };
   } catch (error) {
     console.error("Error getting stablecoin score:", error);
-    return 50; // Default fallback
+    // No holdings credit for balances that couldn't be read
+    const reason = error instanceof Error ? error.message : "Balance query failed";
+    return { score: 0, averageUsd: 0, decayedUsd: 0, origin: origin("fallback", reason) };
   }
 }
 
 /**
- * Get loan history score based on on-chain loan data
+ * Counterparty signals: how many distinct addresses the wallet deals with, how
+ * much of that is with contracts (protocols) rather than EOAs, and whether value
+ * (native and stablecoin, in USD) flows both ways. A wallet that only ping-pongs with one EOA scores low.
  */
-async function getLoanHistoryScore(
+async function getCounterpartySignals(
   address: string,
-  provider: ethers.Provider,
-  coreAddress?: string
-): Promise<number> {
-  if (!coreAddress) {
-    return 50; // Default if no core address
+  sources: SignalSources,
+  asOf?: BlockRef
+): Promise<
+  Pick<Signals, "distinctCounterparties" | "contractInteractionShare" | "inboundOutboundRatio" | "counterpartyScore"> & {
+    origin: SignalOrigin;
   }
-
-  try {
-    // LendingCore ABI for loan queries
-    const coreAbi = [
-      "function loanCounter() view returns (uint256)",
-      "function loans(uint256) view returns (address borrower, address collateralToken, address debtToken, uint256 collateralAmount, uint256 debtAmount, uint256 interestRate, uint256 createdAt, uint256 lastAccruedAt, bool active)",
-    ];
-
-    const coreContract = new ethers.Contract(coreAddress, coreAbi, provider);
-    const loanCounter = await coreContract.loanCounter();
-
-    let activeLoans = 0;
-    let repaidLoans = 0;
-    let totalLoans = 0;
-
-    // Check up to 100 most recent loans (for performance)
-    const maxLoansToCheck = Math.min(100, Number(loanCounter));
-    
-    for (let i = 0; i < maxLoansToCheck; i++) {
-      try {
-        const loanId = Number(loanCounter) - 1 - i;
-        if (loanId < 0) break;
-
-        const loan = await coreContract.loans(loanId);
-        if (loan.borrower.toLowerCase() === address.toLowerCase()) {
-          totalLoans++;
-          if (loan.active) {
-            activeLoans++;
-          } else {
-            repaidLoans++;
-          }
-        }
-      } catch (err) {
-        // Skip if loan doesn't exist
-        continue;
-      }
+> {
+  const { store } = sources;
+  const self = address.toLowerCase();
+  const visible = visibleAt(asOf);
+  const reference = asOf || store.getCheckpoint();
+  const interactions = new Map<string, number>();
+  const count = (counterparty: string | null) => {
+    if (counterparty && counterparty !== self && counterparty !== ethers.ZeroAddress) {
+      interactions.set(counterparty, (interactions.get(counterparty) ?? 0) + 1);
     }
+  };
 
-    // Score calculation:
-    // - Having loans (repaid) = good (shows credit history)
-    // - Active loans that are healthy = good
-    // - No loans = neutral (50 points)
-    let score = 50; // Base score
-
-    if (totalLoans > 0) {
-      // Bonus for having loan history (repaid loans are very positive)
-      score += Math.min(30, repaidLoans * 10); // +10 per repaid loan, max +30
-      
-      // Active loans: moderate positive (shows engagement) but too many = risk
-      if (activeLoans > 3) {
-        score -= (activeLoans - 3) * 5; // -5 per loan over 3 (risk indicator)
-      } else if (activeLoans > 0) {
-        score += activeLoans * 5; // +5 per active loan (up to 3) - shows engagement
-      }
-      
-      // Additional bonus for having both repaid AND active loans (proven track record)
-      if (repaidLoans > 0 && activeLoans > 0 && activeLoans <= 3) {
-        score += 5; // Small bonus for good track record
-      }
+  // Token transfers count toward the flows only for registered stablecoins, valued at their weight
+  const coins = new Map(sources.stablecoins.map((coin) => [coin.address.toLowerCase(), coin] as const));
+  let inboundUsd = 0;
+  let outboundUsd = 0;
+  for (const tx of store.getTransactions(address).filter(visible)) {
+    count(tx.from === self ? tx.to : tx.from);
+    const usd = Number(ethers.formatEther(tx.value)) * sources.nativeUsdPrice;
+    if (tx.from === self) outboundUsd += usd;
+    if (tx.to === self) inboundUsd += usd;
+  }
+  for (const log of store.getTransfers(address).filter(visible)) {
+    count(log.args.from === self ? log.args.to : log.args.from);
+    const coin = coins.get(log.address);
+    if (!coin) continue;
+    const usd = Number(ethers.formatUnits(log.args.value, coin.decimals)) * coin.weight;
+    if (log.args.from === self) outboundUsd += usd;
+    if (log.args.to === self) inboundUsd += usd;
+  }
+
+  const ratio = outboundUsd > 0 ? Math.min(100, inboundUsd / outboundUsd) : inboundUsd > 0 ? 100 : 0;
+
+  let contractShare = 0;
+  let counterpartyOrigin = reference ? origin("real") : origin("default", "Nothing indexed yet");
+  const busiest = [...interactions.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_CODE_CHECKS);
+  if (reference && busiest.length > 0) {
+    try {
+      const codes = await Promise.all(
+        busiest.map(([counterparty]) => sources.provider.getCode(counterparty, reference.number))
+      );
+      const checked = busiest.reduce((sum, [, n]) => sum + n, 0);
+      const withContracts = busiest.reduce((sum, [, n], i) => (codes[i] !== "0x" ? sum + n : sum), 0);
+      contractShare = withContracts / checked;
+    } catch (error) {
+      console.error("Error checking counterparty code:", error);
+      const reason = error instanceof Error ? error.message : "Code lookup failed";
+      counterpartyOrigin = origin("fallback", reason);
     }
+  }
 
-    console.log(`Loan history score for ${address}:`, {
-      totalLoans,
-      repaidLoans,
-      activeLoans,
-      calculatedScore: score
-    });
+  // Diversity counts most; using protocols and two-way flows make up the rest
+  const diversity = Math.min(1, Math.log10(1 + interactions.size) / Math.log10(1 + DIVERSE_COUNTERPARTIES));
+  const protocolUse = Math.min(1, contractShare / 0.5); // half of interactions with contracts counts fully
+  const flowBalance = ratio > 0 ? Math.min(ratio, 1 / ratio) : 0;
+  const score = Math.round(100 * (0.5 * diversity + 0.25 * protocolUse + 0.25 * flowBalance));
 
-    return Math.max(0, Math.min(100, score));
+  return {
+    distinctCounterparties: interactions.size,
+    contractInteractionShare: Math.round(contractShare * 100) / 100,
+    inboundOutboundRatio: Math.round(ratio * 100) / 100,
+    counterpartyScore: counterpartyOrigin.provenance === "fallback" ? 0 : score,
+    origin: counterpartyOrigin,
+  };
+}
+
+/**
+ * Sybil signals from the wallet's cluster in the local index
+ */
+async function getSybilSignals(
+  address: string,
+  sources: SignalSources,
+  asOf?: BlockRef
+): Promise<Pick<Signals, "sybilRisk" | "sybilClusterId"> & { origin: SignalOrigin }> {
+  const reference = asOf || sources.store.getCheckpoint();
+  if (!reference) {
+    return { sybilRisk: 0, sybilClusterId: null, origin: origin("default", "Nothing indexed yet") };
+  }
+
+  try {
+    const cluster = await detectSybilCluster(address, sources.provider, sources.store, reference);
+    return { sybilRisk: cluster.sybilRisk, sybilClusterId: cluster.clusterId, origin: origin("real") };
   } catch (error) {
-    console.error("Error getting loan history score:", error);
-    return 50; // Default fallback
+    console.error("Error detecting sybil cluster:", error);
+    const reason = error instanceof Error ? error.message : "Cluster detection failed";
+    return { sybilRisk: 0, sybilClusterId: null, origin: origin("fallback", reason) };
   }
 }
 
 /**
- * Fallback to deterministic signals if on-chain queries fail
+ * Weight of a loan outcome by size (log-scaled: 100 USDC = 1, capped at 2)
+ * and recency (exponential decay from when the outcome happened)
  */
-function getFallbackSignals(address: string): Signals {
-  const addressHash = ethers.keccak256(ethers.toUtf8Bytes(address));
-  const hashNum = BigInt(addressHash);
+function outcomeWeight(debtAmount: string, outcomeTimestamp: number, now: number): number {
+  const debt = Number(ethers.formatUnits(debtAmount, DEBT_DECIMALS));
+  const sizeWeight = Math.min(2, Math.max(0.25, Math.log10(1 + debt) / 2));
+  const ageDays = Math.max(0, now - outcomeTimestamp) / DAY_SECONDS;
+  const recencyWeight = Math.pow(0.5, ageDays / LOAN_HALF_LIFE_DAYS);
+  return sizeWeight * recencyWeight;
+}
 
-  const walletAge = Number((hashNum >> BigInt(0)) % BigInt(335)) + 30;
-  const recentTxCount = Number((hashNum >> BigInt(64)) % BigInt(50)) + 5;
-  const stablecoinHoldingScore = Number((hashNum >> BigInt(128)) % BigInt(101));
-  const loanHistoryScore = 50; // Neutral
+/**
+ * Get loan history score and outcome counts from indexed LendingCore loan events
+ * Clean repayments raise the score; partial and full liquidations lower it,
+ * each weighted by loan size and how recently it happened
+ */
+function getLoanHistory(
+  address: string,
+  store: IndexStore,
+  asOf?: BlockRef
+): { score: number; counts: LoanHistoryCounts } {
+  const visible = visibleAt(asOf);
+  const loans = store.getLoans(address).filter((loan) => visible(loan.opened));
+  const now = asOf?.timestamp ?? store.getCheckpoint()?.timestamp ?? Math.floor(Date.now() / 1000);
+
+  const counts: LoanHistoryCounts = {
+    repaidLoans: 0,
+    partiallyLiquidatedLoans: 0,
+    liquidatedLoans: 0,
+    activeLoans: 0,
+  };
+  let repaidPoints = 0;
+  let liquidationPenalty = 0;
+
+  for (const loan of loans) {
+    const debtAmount = loan.opened.args.debtAmount;
+    const liquidations = loan.liquidations.filter(visible);
+    const finalRepayment = loan.repayments.find((log) => visible(log) && log.args.remainingDebt === "0");
+    const fullLiquidation = liquidations.find((log) => log.args.remainingDebt === "0");
+
+    if (fullLiquidation) {
+      counts.liquidatedLoans++;
+      liquidationPenalty += 30 * outcomeWeight(debtAmount, fullLiquidation.timestamp, now);
+    } else if (liquidations.length > 0) {
+      // Counted as a partial liquidation even if the rest was repaid later
+      counts.partiallyLiquidatedLoans++;
+      const latest = liquidations[liquidations.length - 1];
+      liquidationPenalty += 15 * outcomeWeight(debtAmount, latest.timestamp, now);
+    } else if (finalRepayment) {
+      counts.repaidLoans++;
+      repaidPoints += 10 * outcomeWeight(debtAmount, finalRepayment.timestamp, now);
+    } else {
+      counts.activeLoans++;
+    }
+  }
+
+  // Score calculation:
+  // - Clean repayments = good (shows credit history), weighted by size and recency
+  // - Liquidations = bad, full liquidations twice as bad as partial ones
+  // - Active loans that are healthy = good, too many = risk
+  // - No loans = neutral (50 points)
+  let score = 50; // Base score
+
+  if (loans.length > 0) {
+    // Bonus for clean repayments (~+10 per recent 100 USDC loan, max +30)
+    score += Math.min(30, repaidPoints);
+
+    // Liquidations are not capped: repeated defaults can take the score to 0
+    score -= liquidationPenalty;
+
+    // Active loans: moderate positive (shows engagement) but too many = risk
+    const { activeLoans, repaidLoans } = counts;
+    if (activeLoans > 3) {
+      score -= (activeLoans - 3) * 5; // -5 per loan over 3 (risk indicator)
+    } else if (activeLoans > 0) {
+      score += activeLoans * 5; // +5 per active loan (up to 3) - shows engagement
+    }
 
+    // Additional bonus for having both repaid AND active loans (proven track record)
+    if (repaidLoans > 0 && activeLoans > 0 && activeLoans <= 3) {
+      score += 5; // Small bonus for good track record
+    }
+  }
+
+  score = Math.round(Math.max(0, Math.min(100, score)));
+  console.log(`Loan history score for ${address}:`, { ...counts, calculatedScore: score });
+
+  return { score, counts };
+}
+
+/**
+ * Neutral signals used when on-chain queries fail: no activity, no holdings
+ * credit and a neutral loan history, rather than anything that could look earned
+ */
+function getFallbackSignals(): Signals {
   return {
-    walletAge,
-    recentTxCount,
-    stablecoinHoldingScore,
-    loanHistoryScore,
+    accountType: "eoa",
+    walletAge: 0,
+    recentTxCount: 0,
+    decayedActivity: 0,
+    stablecoinHoldingScore: 0,
+    stablecoinBalanceUsd: 0,
+    decayedStablecoinBalanceUsd: 0,
+    loanHistoryScore: 50,
+    repaidLoans: 0,
+    partiallyLiquidatedLoans: 0,
+    liquidatedLoans: 0,
+    activeLoans: 0,
+    distinctCounterparties: 0,
+    contractInteractionShare: 0,
+    inboundOutboundRatio: 0,
+    counterpartyScore: 0,
+    sybilRisk: 0,
+    sybilClusterId: null,
+    scoreMomentum: 0,
   };
 }
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { readJsonFile } from "../storage/json-file.js";
+
+const stablecoinSchema = z.object({
+  symbol: z.string().min(1),
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"),
+  decimals: z.number().int().min(0).max(36),
+  weight: z.number().min(0).max(1), // USD value counted per token, e.g. 0.9 for a less trusted peg
+});
+
+const stablecoinRegistrySchema = z.array(stablecoinSchema).refine(
+  (coins) => new Set(coins.map((coin) => coin.address.toLowerCase())).size === coins.length,
+  "Duplicate stablecoin address"
+);
+
+export type Stablecoin = z.infer<typeof stablecoinSchema>;
+
+/**
+ * Load the stablecoin registry (a JSON array of { symbol, address, decimals, weight })
+ * Without a registry file, falls back to USDC_ADDRESS alone so existing setups keep working
+ */
+export async function loadStablecoins(filePath: string, usdcAddress?: string): Promise<Stablecoin[]> {
+  const raw = await readJsonFile<unknown>(filePath, null);
+  if (raw === null) {
+    return usdcAddress ? [{ symbol: "USDC", address: usdcAddress, decimals: 6, weight: 1 }] : [];
+  }
+  return stablecoinRegistrySchema.parse(raw);
+}
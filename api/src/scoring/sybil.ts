@@ -0,0 +1,166 @@
+import { ethers } from "ethers";
+import type { BlockRef, IndexStore } from "../indexer/store.js";
+
+export interface SybilCluster {
+  clusterId: string | null; // stable id derived from the members, null when the wallet isn't linked to any other
+  members: string[]; // lowercased, including the wallet itself
+  fundingSource: string | null; // sender of the wallet's first inbound value
+  mutualPairs: number; // member pairs that sent each other value within MUTUAL_WINDOW_SECONDS
+  sybilRisk: number; // 0-1
+}
+
+// Wallets at or above this risk are held at tier C
+export const HIGH_SYBIL_RISK = 0.7;
+
+// Transfers both ways within this window link two wallets
+const MUTUAL_WINDOW_SECONDS = 24 * 60 * 60;
+
+// A funder that seeded more wallets than this is a hub (exchange, faucet, bridge), not one operator
+const HUB_FANOUT = 50;
+
+// Stop expanding a cluster past this many members
+const MAX_CLUSTER_SIZE = 50;
+
+// Risk added per other wallet sharing the funder, and per mutual-transfer pair
+const SIBLING_RISK = 0.2;
+const MUTUAL_PAIR_RISK = 0.3;
+
+/** A native transfer or token transfer between two addresses */
+interface ValueFlow {
+  from: string;
+  to: string;
+  timestamp: number;
+  blockNumber: number;
+}
+
+/**
+ * Value the address sent or received up to `reference`, oldest first
+ * Zero-value transactions are calls, not funding; mints and burns have no counterparty
+ */
+function valueFlows(address: string, store: IndexStore, reference: BlockRef): ValueFlow[] {
+  const flows: ValueFlow[] = [];
+  for (const tx of store.getTransactions(address)) {
+    if (tx.blockNumber <= reference.number && tx.to && tx.to !== tx.from && BigInt(tx.value) > 0n) {
+      flows.push({ from: tx.from, to: tx.to, timestamp: tx.timestamp, blockNumber: tx.blockNumber });
+    }
+  }
+  for (const log of store.getTransfers(address)) {
+    const { from, to, value } = log.args;
+    if (
+      log.blockNumber <= reference.number &&
+      from !== to &&
+      from !== ethers.ZeroAddress &&
+      to !== ethers.ZeroAddress &&
+      BigInt(value) > 0n
+    ) {
+      flows.push({ from, to, timestamp: log.timestamp, blockNumber: log.blockNumber });
+    }
+  }
+  return flows.sort((a, b) => a.blockNumber - b.blockNumber);
+}
+
+/**
+ * Group a wallet with the wallets it is likely operated alongside, using the
+ * local index as of `reference`: wallets whose first inbound value came from the
+ * same funder, and wallets that sent each other value within a short window.
+ * Contracts (protocols, token contracts, LendingCore) and hub funders never link
+ * wallets, so borrowing or withdrawing from an exchange doesn't put users in a cluster.
+ * Risk grows with the number of linked wallets; one eth_getCode per candidate.
+ */
+export async function detectSybilCluster(
+  address: string,
+  provider: ethers.Provider,
+  store: IndexStore,
+  reference: BlockRef
+): Promise<SybilCluster> {
+  const self = address.toLowerCase();
+  const flowCache = new Map<string, ValueFlow[]>();
+  const flowsOf = (member: string) => {
+    let flows = flowCache.get(member);
+    if (!flows) {
+      flows = valueFlows(member, store, reference);
+      flowCache.set(member, flows);
+    }
+    return flows;
+  };
+
+  const codeCache = new Map<string, Promise<boolean>>();
+  const isContract = (candidate: string) => {
+    let check = codeCache.get(candidate);
+    if (!check) {
+      check = provider.getCode(candidate, reference.number).then((code) => code !== "0x");
+      codeCache.set(candidate, check);
+    }
+    return check;
+  };
+
+  const fundingSource = (member: string) => flowsOf(member).find((flow) => flow.to === member)?.from ?? null;
+
+  /** Wallets that `funder` seeded, or null when it's a contract or a hub */
+  const fundedBy = async (funder: string): Promise<string[] | null> => {
+    const recipients = new Set(flowsOf(funder).filter((flow) => flow.from === funder).map((flow) => flow.to));
+    if (recipients.size > HUB_FANOUT || (await isContract(funder))) {
+      return null;
+    }
+    return [...recipients].filter((recipient) => fundingSource(recipient) === funder);
+  };
+
+  /** Counterparties that sent `member` value and received value from it within the window */
+  const mutualPartners = (member: string): string[] => {
+    const sent = new Map<string, number[]>();
+    const received = new Map<string, number[]>();
+    for (const flow of flowsOf(member)) {
+      const [map, other] = flow.from === member ? [sent, flow.to] : [received, flow.from];
+      map.set(other, [...(map.get(other) ?? []), flow.timestamp]);
+    }
+    return [...sent.keys()].filter((other) =>
+      (sent.get(other) ?? []).some((out) =>
+        (received.get(other) ?? []).some((back) => Math.abs(out - back) <= MUTUAL_WINDOW_SECONDS)
+      )
+    );
+  };
+
+  const members = new Set([self]);
+  const pairs = new Set<string>();
+  const checkedFunders = new Set<string>();
+  const queue = [self];
+  let siblings = 0;
+
+  while (queue.length > 0 && members.size < MAX_CLUSTER_SIZE) {
+    const member = queue.shift()!;
+    const linked: string[] = [];
+
+    const funder = fundingSource(member);
+    if (funder && !checkedFunders.has(funder)) {
+      checkedFunders.add(funder);
+      const funded = await fundedBy(funder);
+      if (funded) {
+        siblings += funded.filter((wallet) => wallet !== member).length;
+        linked.push(...funded);
+      }
+    }
+
+    for (const partner of mutualPartners(member)) {
+      if (await isContract(partner)) continue;
+      pairs.add([member, partner].sort().join(":"));
+      linked.push(partner);
+    }
+
+    for (const wallet of linked) {
+      if (!members.has(wallet) && members.size < MAX_CLUSTER_SIZE) {
+        members.add(wallet);
+        queue.push(wallet);
+      }
+    }
+  }
+
+  const sorted = [...members].sort();
+  const risk = Math.min(1, SIBLING_RISK * siblings + MUTUAL_PAIR_RISK * pairs.size);
+  return {
+    clusterId: sorted.length > 1 ? `sybil-${ethers.id(sorted.join(",")).slice(2, 14)}` : null,
+    members: sorted,
+    fundingSource: fundingSource(self),
+    mutualPairs: pairs.size,
+    sybilRisk: Math.round(risk * 100) / 100,
+  };
+}
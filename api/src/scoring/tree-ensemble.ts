@@ -0,0 +1,349 @@
+import type { Signals } from "./signals.js";
+import type { ModelFeature, TreeEnsembleModel } from "./model-registry.js";
+
+/**
+ * Inference for gradient-boosted tree ensembles exported as JSON:
+ * - XGBoost: `booster.get_dump(dump_format="json", with_stats=True)`, parsed, as `trees`
+ * - LightGBM: `booster.dump_model()` as `trees`
+ * Both are compiled into one node format on load. Per-prediction contributions
+ * come from TreeSHAP (Lundberg et al. 2018), so they are exact Shapley values of
+ * the ensemble's raw output and need the per-node cover the dumps carry as stats.
+ */
+
+interface LeafNode {
+  leaf: number;
+  cover: number;
+}
+
+interface SplitNode {
+  feature: number; // index into the model's `features`
+  threshold: number;
+  inclusive: boolean; // LightGBM goes left on value <= threshold, XGBoost on value < threshold
+  missing: "left" | "right" | "zero"; // where NaN goes; "zero" compares it as 0
+  zeroIsMissing: boolean; // LightGBM missing_type "Zero": 0 takes the missing branch too
+  cover: number;
+  left: TreeNode;
+  right: TreeNode;
+}
+
+type TreeNode = LeafNode | SplitNode;
+
+interface CompiledEnsemble {
+  trees: TreeNode[];
+  expected: number; // mean raw output over the training data, weighted by cover
+}
+
+export interface EnsembleExplanation {
+  output: number; // raw ensemble output (log-odds for binary models)
+  expected: number; // output for an "average" wallet
+  contributions: number[]; // per feature, summing to output - expected
+}
+
+const compiled = new WeakMap<TreeEnsembleModel, CompiledEnsemble>();
+
+const isLeaf = (node: TreeNode): node is LeafNode => "leaf" in node;
+
+function expectNumber(value: unknown, what: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`${what} must be a number`);
+  }
+  return value;
+}
+
+function expectCover(value: unknown, what: string): number {
+  if (typeof value !== "number" || !(value >= 0)) {
+    throw new Error(`${what} has no cover; export the model with split statistics`);
+  }
+  return value;
+}
+
+interface XgboostNode {
+  nodeid: number;
+  leaf?: number;
+  split?: string;
+  split_condition?: number;
+  yes?: number;
+  no?: number;
+  missing?: number;
+  cover?: number;
+  children?: XgboostNode[];
+}
+
+function fromXgboost(node: XgboostNode, featureIndex: (name: string) => number, where: string): TreeNode {
+  const at = `${where} node ${node.nodeid}`;
+  if (node.leaf !== undefined) {
+    return { leaf: expectNumber(node.leaf, `${at} leaf`), cover: expectCover(node.cover, at) };
+  }
+
+  const child = (id: number | undefined) => {
+    const found = node.children?.find((candidate) => candidate.nodeid === id);
+    if (!found) {
+      throw new Error(`${at} is missing child ${id}`);
+    }
+    return fromXgboost(found, featureIndex, where);
+  };
+  return {
+    feature: featureIndex(String(node.split)),
+    threshold: expectNumber(node.split_condition, `${at} split_condition`),
+    inclusive: false,
+    missing: node.missing === node.no ? "right" : "left",
+    zeroIsMissing: false,
+    cover: expectCover(node.cover, at),
+    left: child(node.yes),
+    right: child(node.no),
+  };
+}
+
+interface LightgbmNode {
+  leaf_value?: number;
+  leaf_count?: number;
+  split_feature?: number;
+  threshold?: number;
+  decision_type?: string;
+  default_left?: boolean;
+  missing_type?: string;
+  internal_count?: number;
+  left_child?: LightgbmNode;
+  right_child?: LightgbmNode;
+}
+
+function fromLightgbm(node: LightgbmNode, featureCount: number, where: string): TreeNode {
+  if (node.leaf_value !== undefined) {
+    return { leaf: expectNumber(node.leaf_value, `${where} leaf_value`), cover: expectCover(node.leaf_count, where) };
+  }
+
+  if (node.decision_type !== "<=") {
+    throw new Error(`${where}: decision type ${node.decision_type} isn't supported (categorical splits)`);
+  }
+  const feature = expectNumber(node.split_feature, `${where} split_feature`);
+  if (!Number.isInteger(feature) || feature < 0 || feature >= featureCount) {
+    throw new Error(`${where}: feature ${feature} has no entry in features`);
+  }
+  if (!node.left_child || !node.right_child) {
+    throw new Error(`${where}: split without two children`);
+  }
+  const defaultSide = node.default_left ? "left" : "right";
+  return {
+    feature,
+    threshold: expectNumber(node.threshold, `${where} threshold`),
+    inclusive: true,
+    missing: node.missing_type === "NaN" || node.missing_type === "Zero" ? defaultSide : "zero",
+    zeroIsMissing: node.missing_type === "Zero",
+    cover: expectCover(node.internal_count, where),
+    left: fromLightgbm(node.left_child, featureCount, where),
+    right: fromLightgbm(node.right_child, featureCount, where),
+  };
+}
+
+/** Cover-weighted mean leaf value, i.e. the tree's output with no feature known */
+function expectedValue(node: TreeNode): number {
+  if (isLeaf(node)) {
+    return node.leaf;
+  }
+  const total = node.left.cover + node.right.cover;
+  if (total <= 0) {
+    throw new Error("Split with zero cover on both sides");
+  }
+  return (node.left.cover * expectedValue(node.left) + node.right.cover * expectedValue(node.right)) / total;
+}
+
+/**
+ * Parse and validate a model's dump; throws on anything the runtime can't evaluate
+ * The result is cached per model definition
+ */
+export function compileEnsemble(model: TreeEnsembleModel): CompiledEnsemble {
+  const cached = compiled.get(model);
+  if (cached) {
+    return cached;
+  }
+
+  let trees: TreeNode[];
+  if (model.format === "xgboost") {
+    if (!Array.isArray(model.trees)) {
+      throw new Error(`${model.version}: XGBoost trees must be the array from get_dump(dump_format="json")`);
+    }
+    const featureIndex = (name: string) => {
+      const named = model.features.findIndex((feature) => feature.name === name);
+      const positional = /^f(\d+)$/.exec(name);
+      const index = named !== -1 ? named : positional ? Number(positional[1]) : -1;
+      if (index < 0 || index >= model.features.length) {
+        throw new Error(`${model.version}: split on unknown feature ${name}`);
+      }
+      return index;
+    };
+    trees = (model.trees as XgboostNode[]).map((tree, i) => fromXgboost(tree, featureIndex, `${model.version} tree ${i}`));
+  } else {
+    const dump = model.trees as { feature_names?: string[]; tree_info?: { tree_structure: LightgbmNode }[] };
+    if (!dump || !Array.isArray(dump.tree_info)) {
+      throw new Error(`${model.version}: LightGBM trees must be the object from dump_model()`);
+    }
+    dump.feature_names?.forEach((name, i) => {
+      if (model.features[i]?.name !== name) {
+        throw new Error(`${model.version}: dump feature ${i} is ${name}, features[${i}] is ${model.features[i]?.name}`);
+      }
+    });
+    trees = dump.tree_info.map((info, i) =>
+      fromLightgbm(info.tree_structure, model.features.length, `${model.version} tree ${i}`)
+    );
+  }
+
+  if (trees.length === 0) {
+    throw new Error(`${model.version}: ensemble has no trees`);
+  }
+  const ensemble = {
+    trees,
+    expected: trees.reduce((sum, tree) => sum + expectedValue(tree), model.baseMargin),
+  };
+  compiled.set(model, ensemble);
+  return ensemble;
+}
+
+/**
+ * The ensemble's inputs for a wallet, in `features` order
+ * `normalized` are the wallet's model features; signals missing from older snapshots are NaN
+ */
+export function ensembleInputs(
+  model: TreeEnsembleModel,
+  signals: Signals,
+  normalized: Record<ModelFeature, number>
+): number[] {
+  return model.features.map((feature) =>
+    "signal" in feature ? signals[feature.signal] ?? NaN : normalized[feature.modelFeature]
+  );
+}
+
+function goesLeft(node: SplitNode, value: number): boolean {
+  if (Number.isNaN(value)) {
+    if (node.missing !== "zero") return node.missing === "left";
+    value = 0;
+  } else if (node.zeroIsMissing && value === 0) {
+    return node.missing === "left";
+  }
+  return node.inclusive ? value <= node.threshold : value < node.threshold;
+}
+
+function leafValue(node: TreeNode, inputs: number[]): number {
+  while (!isLeaf(node)) {
+    node = goesLeft(node, inputs[node.feature]) ? node.left : node.right;
+  }
+  return node.leaf;
+}
+
+/**
+ * Raw ensemble output: the base margin plus every tree's leaf
+ */
+export function evaluateEnsemble(model: TreeEnsembleModel, inputs: number[]): number {
+  return compileEnsemble(model).trees.reduce((sum, tree) => sum + leafValue(tree, inputs), model.baseMargin);
+}
+
+/**
+ * Map a raw output to the 0-100 score scale
+ */
+export function ensembleScore(model: TreeEnsembleModel, output: number): number {
+  if (model.objective === "binary") {
+    return 100 / (1 + Math.exp(-output));
+  }
+  return Math.min(100, Math.max(0, output));
+}
+
+// One element of the TreeSHAP feature path: the fraction of "feature unknown"
+// (zero) and "feature known" (one) paths flowing through it, and the permutation weight
+interface PathElement {
+  feature: number;
+  zero: number;
+  one: number;
+  weight: number;
+}
+
+function extendPath(path: PathElement[], depth: number, zero: number, one: number, feature: number) {
+  path[depth] = { feature, zero, one, weight: depth === 0 ? 1 : 0 };
+  for (let i = depth - 1; i >= 0; i--) {
+    path[i + 1].weight += (one * path[i].weight * (i + 1)) / (depth + 1);
+    path[i].weight = (zero * path[i].weight * (depth - i)) / (depth + 1);
+  }
+}
+
+function unwindPath(path: PathElement[], depth: number, index: number) {
+  const { zero, one } = path[index];
+  let next = path[depth].weight;
+  for (let i = depth - 1; i >= 0; i--) {
+    if (one !== 0) {
+      const previous = path[i].weight;
+      path[i].weight = (next * (depth + 1)) / ((i + 1) * one);
+      next = previous - (path[i].weight * zero * (depth - i)) / (depth + 1);
+    } else {
+      path[i].weight = (path[i].weight * (depth + 1)) / (zero * (depth - i));
+    }
+  }
+  for (let i = index; i < depth; i++) {
+    path[i] = { ...path[i + 1], weight: path[i].weight };
+  }
+}
+
+function unwoundPathSum(path: PathElement[], depth: number, index: number): number {
+  const { zero, one } = path[index];
+  let next = path[depth].weight;
+  let total = 0;
+  for (let i = depth - 1; i >= 0; i--) {
+    if (one !== 0) {
+      const share = (next * (depth + 1)) / ((i + 1) * one);
+      total += share;
+      next = path[i].weight - (share * zero * (depth - i)) / (depth + 1);
+    } else if (zero !== 0) {
+      total += path[i].weight / zero / ((depth - i) / (depth + 1));
+    }
+  }
+  return total;
+}
+
+function treeShap(
+  node: TreeNode,
+  inputs: number[],
+  phi: number[],
+  parentPath: PathElement[],
+  depth: number,
+  zero: number,
+  one: number,
+  feature: number
+) {
+  const path = parentPath.slice(0, depth).map((element) => ({ ...element }));
+  extendPath(path, depth, zero, one, feature);
+
+  if (isLeaf(node)) {
+    for (let i = 1; i <= depth; i++) {
+      const weight = unwoundPathSum(path, depth, i);
+      phi[path[i].feature] += weight * (path[i].one - path[i].zero) * node.leaf;
+    }
+    return;
+  }
+
+  const [hot, cold] = goesLeft(node, inputs[node.feature]) ? [node.left, node.right] : [node.right, node.left];
+  const cover = node.left.cover + node.right.cover;
+
+  // A feature split on again further down is only counted once on the path
+  let incomingZero = 1;
+  let incomingOne = 1;
+  let nextDepth = depth;
+  const seen = path.findIndex((element) => element.feature === node.feature);
+  if (seen !== -1) {
+    incomingZero = path[seen].zero;
+    incomingOne = path[seen].one;
+    unwindPath(path, depth, seen);
+    nextDepth--;
+  }
+
+  treeShap(hot, inputs, phi, path, nextDepth + 1, (hot.cover / cover) * incomingZero, incomingOne, node.feature);
+  treeShap(cold, inputs, phi, path, nextDepth + 1, (cold.cover / cover) * incomingZero, 0, node.feature);
+}
+
+/**
+ * Raw output plus each feature's SHAP value for one wallet
+ */
+export function explainEnsemble(model: TreeEnsembleModel, inputs: number[]): EnsembleExplanation {
+  const ensemble = compileEnsemble(model);
+  const contributions = model.features.map(() => 0);
+  for (const tree of ensemble.trees) {
+    treeShap(tree, inputs, contributions, [], 0, 1, 1, -1);
+  }
+  return { output: evaluateEnsemble(model, inputs), expected: ensemble.expected, contributions };
+}
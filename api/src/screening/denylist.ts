@@ -0,0 +1,132 @@
+import { FSWatcher, watch } from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { appendJsonLine, readJsonFile } from "../storage/json-file.js";
+
+const denylistEntrySchema = z.object({
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"),
+  reason: z.string().min(1), // reason code, e.g. "OFAC-SDN" or "EXPLOIT"
+});
+
+const denylistSchema = z.array(denylistEntrySchema);
+
+export type DenylistEntry = z.infer<typeof denylistEntrySchema>;
+
+/**
+ * allow: nothing listed; capTier: a direct counterparty is listed, so the
+ * score is held at tier C; block: the wallet itself is listed, nothing is committed
+ */
+export type ScreeningAction = "allow" | "capTier" | "block";
+
+export interface ScreeningHit {
+  address: string; // lowercased
+  reason: string;
+  relation: "self" | "counterparty";
+}
+
+export interface ScreeningResult {
+  action: ScreeningAction;
+  hits: ScreeningHit[];
+}
+
+/** What the screened request was for, recorded in the audit trail */
+export interface ScreeningContext {
+  purpose: "score" | "historical" | "commit";
+  blockNumber: number | null;
+}
+
+export interface Screener {
+  /** Screen a wallet and its counterparties; every decision is appended to the audit trail */
+  screen(address: string, counterparties: string[], context: ScreeningContext): Promise<ScreeningResult>;
+  size(): number;
+  /** Called after the denylist file changed and was reloaded */
+  onReload(listener: () => void): void;
+  close(): void;
+}
+
+async function readDenylist(filePath: string): Promise<Map<string, string>> {
+  const entries = denylistSchema.parse(await readJsonFile<unknown>(filePath, []));
+  return new Map(entries.map((entry) => [entry.address.toLowerCase(), entry.reason]));
+}
+
+/**
+ * Load the denylist at `filePath` (a JSON array of { address, reason }) and
+ * reload it when the file changes; decisions are logged to `auditFile` (JSON lines)
+ * A missing file means an empty list. An invalid file fails startup, and an
+ * invalid edit keeps the previous list.
+ */
+export async function openScreener(filePath: string, auditFile: string): Promise<Screener> {
+  let listed = await readDenylist(filePath);
+  console.log(`Denylist: ${listed.size} address(es) from ${filePath}`);
+  const reloadListeners: Array<() => void> = [];
+
+  const reload = async () => {
+    try {
+      listed = await readDenylist(filePath);
+      console.log(`Denylist reloaded: ${listed.size} address(es)`);
+      reloadListeners.forEach((listener) => listener());
+    } catch (error) {
+      console.error("Denylist reload failed, keeping previous list:", error);
+    }
+  };
+
+  // Watch the directory so the file can be created or replaced atomically
+  let reloadTimer: NodeJS.Timeout | null = null;
+  let watcher: FSWatcher | null = null;
+  try {
+    watcher = watch(path.dirname(filePath), (_event, file) => {
+      if (file !== path.basename(filePath)) return;
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(reload, 250);
+    });
+  } catch (error) {
+    console.warn(`Denylist hot-reload disabled, cannot watch ${filePath}:`, error);
+  }
+
+  return {
+    async screen(address, counterparties, context) {
+      const self = address.toLowerCase();
+      const hits: ScreeningHit[] = [];
+      if (listed.has(self)) {
+        hits.push({ address: self, reason: listed.get(self)!, relation: "self" });
+      }
+      for (const counterparty of counterparties) {
+        const reason = listed.get(counterparty.toLowerCase());
+        if (reason) {
+          hits.push({ address: counterparty.toLowerCase(), reason, relation: "counterparty" });
+        }
+      }
+
+      const action: ScreeningAction = hits.some((hit) => hit.relation === "self")
+        ? "block"
+        : hits.length > 0
+        ? "capTier"
+        : "allow";
+
+      // Fails the request if the decision can't be recorded
+      await appendJsonLine(auditFile, {
+        at: new Date().toISOString(),
+        address: self,
+        ...context,
+        action,
+        hits,
+        counterpartiesChecked: counterparties.length,
+      });
+      if (action !== "allow") {
+        console.warn(`Screening ${self} (${context.purpose}): ${action}`, hits);
+      }
+      return { action, hits };
+    },
+
+    size: () => listed.size,
+
+    onReload(listener) {
+      reloadListeners.push(listener);
+    },
+
+    close() {
+      watcher?.close();
+      if (reloadTimer) clearTimeout(reloadTimer);
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+
+/**
+ * Read a JSON file, returning the fallback if it does not exist yet
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file atomically (write to a temp file, then rename over the target)
+ * so a crash mid-write never leaves a truncated file behind
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data));
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * Read a JSON Lines file (one JSON value per line), returning [] if it does not exist yet
+ */
+export async function readJsonLines<T>(filePath: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    return raw
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as T);
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Append one value to a JSON Lines file
+ */
+export async function appendJsonLine(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, JSON.stringify(data) + "\n");
+}
+
+/**
+ * Append several values to a JSON Lines file in one write
+ */
+export async function appendJsonLines(filePath: string, values: unknown[]): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, values.map((value) => JSON.stringify(value) + "\n").join(""));
+}
+
+/**
+ * Replace a JSON Lines file atomically, like writeJsonFile
+ */
+export async function writeJsonLines(filePath: string, values: unknown[]): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, values.map((value) => JSON.stringify(value) + "\n").join(""));
+  await fs.rename(tmpPath, filePath);
+}
@@ -0,0 +1,149 @@
+import { ethers } from "ethers";
+import { scoreWithModel } from "../scoring/score.js";
+import type { ModelDefinition } from "../scoring/model-registry.js";
+import type { HistoricalLoan } from "./dataset.js";
+
+type Tier = "A" | "B" | "C";
+
+const TIERS: Tier[] = ["A", "B", "C"];
+const TIER_IDS: Record<Tier, number> = { A: 2, B: 1, C: 0 }; // LendingCore tier ids
+
+const CORE_ABI = [
+  "function oracle() view returns (address)",
+  "function tierParams(uint8) view returns (uint256 ltvBps, uint256 aprBps)",
+];
+const ORACLE_ABI = ["function getPrice() view returns (uint256)"];
+
+/**
+ * A historical loan with the loan-to-value it was actually opened at
+ */
+export interface BacktestLoan extends HistoricalLoan {
+  ltvBps: number;
+}
+
+export interface TierBacktest {
+  tier: Tier;
+  loans: number; // historical loans the model places in this tier
+  approvalRate: number | null; // share whose LTV fits under this tier's current max LTV
+  closed: number;
+  liquidationRate: number | null; // share of closed loans that were liquidated
+  averageLtvBps: number | null;
+  maxLtvBps: number;
+}
+
+export interface ModelBacktest {
+  modelVersion: string;
+  tiers: TierBacktest[];
+  overall: Omit<TierBacktest, "tier" | "maxLtvBps">;
+}
+
+export interface BacktestReport {
+  ranAt: string;
+  indexedBlock: number | null;
+  loans: number;
+  maxLtvBps: Record<Tier, number>;
+  models: ModelBacktest[];
+}
+
+/**
+ * Attach each loan's opening LTV (debt / collateral value at the oracle price of that block)
+ */
+export async function withOpeningLtv(
+  provider: ethers.Provider,
+  coreAddress: string,
+  loans: HistoricalLoan[]
+): Promise<BacktestLoan[]> {
+  const core = new ethers.Contract(coreAddress, CORE_ABI, provider);
+  const oracle = new ethers.Contract(await core.oracle(), ORACLE_ABI, provider);
+
+  return Promise.all(
+    loans.map(async (loan) => {
+      const { collateralAmount, debtAmount } = loan.record.opened.args;
+      const price: bigint = await oracle.getPrice({ blockTag: loan.openedAtBlock });
+      // Collateral value and debt both in 18 decimals (USDC has 6), as LendingCore compares them
+      const collateralValue = (BigInt(collateralAmount) * price) / 10n ** 18n;
+      const debt18 = BigInt(debtAmount) * 10n ** 12n;
+      const ltvBps = collateralValue > 0n ? Number((debt18 * 10000n) / collateralValue) : 0;
+      return { ...loan, ltvBps };
+    })
+  );
+}
+
+/**
+ * Current max LTV per tier from LendingCore
+ */
+export async function readMaxLtv(provider: ethers.Provider, coreAddress: string): Promise<Record<Tier, number>> {
+  const core = new ethers.Contract(coreAddress, CORE_ABI, provider);
+  const entries = await Promise.all(
+    TIERS.map(async (tier) => [tier, Number((await core.tierParams(TIER_IDS[tier])).ltvBps)] as const)
+  );
+  return Object.fromEntries(entries) as Record<Tier, number>;
+}
+
+function summarize(loans: BacktestLoan[], maxLtvBps: number) {
+  const closed = loans.filter((loan) => loan.repaid !== null);
+  const rate = (count: number, total: number) => (total > 0 ? count / total : null);
+  return {
+    loans: loans.length,
+    approvalRate: rate(loans.filter((loan) => loan.ltvBps <= maxLtvBps).length, loans.length),
+    closed: closed.length,
+    liquidationRate: rate(closed.filter((loan) => loan.repaid === 0).length, closed.length),
+    averageLtvBps: loans.length > 0 ? loans.reduce((sum, loan) => sum + loan.ltvBps, 0) / loans.length : null,
+  };
+}
+
+/**
+ * Replay historical loans through each model: which tier it would have
+ * assigned each borrower at loan open, and how those loans turned out
+ */
+export function runBacktest(
+  loans: BacktestLoan[],
+  models: ModelDefinition[],
+  maxLtvBps: Record<Tier, number>,
+  indexedBlock: number | null
+): BacktestReport {
+  return {
+    ranAt: new Date().toISOString(),
+    indexedBlock,
+    loans: loans.length,
+    maxLtvBps,
+    models: models.map((model) => {
+      const tierOf = new Map(loans.map((loan) => [loan.loanId, scoreWithModel(loan.signals, model).tier]));
+      const tiers = TIERS.map((tier) => ({
+        tier,
+        ...summarize(
+          loans.filter((loan) => tierOf.get(loan.loanId) === tier),
+          maxLtvBps[tier]
+        ),
+        maxLtvBps: maxLtvBps[tier],
+      }));
+
+      // A loan is approved overall if it fits under the max LTV of the tier it was assigned
+      const approved = loans.filter((loan) => loan.ltvBps <= maxLtvBps[tierOf.get(loan.loanId)!]).length;
+      const overall = { ...summarize(loans, Infinity), approvalRate: loans.length > 0 ? approved / loans.length : null };
+
+      return { modelVersion: model.version, tiers, overall };
+    }),
+  };
+}
+
+const percent = (value: number | null) => (value === null ? "-" : `${(value * 100).toFixed(1)}%`);
+const bps = (value: number | null) => (value === null ? "-" : `${(value / 100).toFixed(1)}%`);
+
+/**
+ * Side-by-side rows (one per model and tier) for console.table
+ */
+export function backtestTable(report: BacktestReport) {
+  return report.models.flatMap((model) =>
+    [...model.tiers, { tier: "all", ...model.overall, maxLtvBps: null }].map((row) => ({
+      model: model.modelVersion,
+      tier: row.tier,
+      loans: row.loans,
+      approval: percent(row.approvalRate),
+      liquidated: percent(row.liquidationRate),
+      closed: row.closed,
+      avgLtv: bps(row.averageLtvBps),
+      maxLtv: bps(row.maxLtvBps),
+    }))
+  );
+}
@@ -0,0 +1,94 @@
+import type { BlockRef, LoanRecord } from "../indexer/store.js";
+import { collectSignals, type SignalQuality, type Signals, type SignalSources } from "../scoring/signals.js";
+
+/**
+ * An indexed loan replayed to the moment it was opened: the borrower's
+ * signals as of the block before LoanOpened, and how the loan ended
+ */
+export interface HistoricalLoan {
+  loanId: string;
+  borrower: string;
+  openedAtBlock: number;
+  asOf: BlockRef;
+  signals: Signals;
+  quality: SignalQuality;
+  record: LoanRecord;
+  repaid: 0 | 1 | null; // 1 = fully repaid, 0 = liquidated (partially or fully), null = still open
+}
+
+/**
+ * One labeled training example (a closed loan)
+ */
+export interface TrainingExample extends HistoricalLoan {
+  repaid: 0 | 1;
+}
+
+export interface DatasetSummary {
+  examples: TrainingExample[];
+  skippedOpen: number; // loans with no outcome yet
+  skippedFallback: number; // closed loans whose signals couldn't be read
+}
+
+/**
+ * Outcome of a loan, or null while it is still open
+ * Any liquidation counts as a default even if the rest was repaid later
+ */
+export function loanOutcome(loan: LoanRecord): 0 | 1 | null {
+  if (loan.liquidations.length > 0) {
+    return 0;
+  }
+  if (loan.repayments.some((log) => log.args.remainingDebt === "0")) {
+    return 1;
+  }
+  return null;
+}
+
+/**
+ * Replay every indexed LoanOpened event
+ * Signals are collected as of the block before the loan opened, so they
+ * never include the loan itself
+ */
+export async function loadHistoricalLoans(sources: Omit<SignalSources, "asOf">): Promise<HistoricalLoan[]> {
+  const { provider, store } = sources;
+  const loans: HistoricalLoan[] = [];
+
+  for (const record of store.getAllLoans()) {
+    const block = await provider.getBlock(Math.max(0, record.opened.blockNumber - 1));
+    if (!block || !block.hash) {
+      throw new Error(`Block before loan ${record.loanId} not found`);
+    }
+    const asOf: BlockRef = { number: block.number, hash: block.hash, timestamp: block.timestamp };
+
+    const { signals, quality } = await collectSignals(record.borrower, { ...sources, asOf });
+    loans.push({
+      loanId: record.loanId,
+      borrower: record.borrower,
+      openedAtBlock: record.opened.blockNumber,
+      asOf,
+      signals,
+      quality,
+      record,
+      repaid: loanOutcome(record),
+    });
+  }
+
+  return loans;
+}
+
+/**
+ * Build the labeled training dataset from the closed historical loans
+ * Loans whose signals fell back to placeholders are left out rather than
+ * teaching the model from made-up values
+ */
+export async function buildDataset(sources: Omit<SignalSources, "asOf">): Promise<DatasetSummary> {
+  const loans = await loadHistoricalLoans(sources);
+  const closed = loans.filter((loan): loan is TrainingExample => loan.repaid !== null);
+  const examples = closed.filter((loan) =>
+    Object.values(loan.quality.signals).every((entry) => entry.provenance !== "fallback")
+  );
+  return {
+    examples,
+    skippedOpen: loans.length - closed.length,
+    skippedFallback: closed.length - examples.length,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Logistic regression and evaluation metrics for the training CLI
+ * Datasets are small (one row per closed loan), so plain batch gradient
+ * descent is enough and keeps the API free of numeric dependencies
+ */
+
+export interface FitOptions {
+  epochs: number;
+  learningRate: number;
+  l2: number; // ridge penalty on the coefficients (not the intercept)
+}
+
+export interface LogisticFit {
+  intercept: number;
+  coefficients: number[];
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+export function predictProbability(fit: LogisticFit, x: number[]): number {
+  return sigmoid(x.reduce((z, value, j) => z + fit.coefficients[j] * value, fit.intercept));
+}
+
+/**
+ * Fit P(y = 1 | x) by minimizing L2-regularized log-loss
+ */
+export function fitLogistic(rows: number[][], labels: number[], options: FitOptions): LogisticFit {
+  const n = rows.length;
+  const dims = rows[0]?.length ?? 0;
+  const fit: LogisticFit = { intercept: 0, coefficients: new Array(dims).fill(0) };
+  if (n === 0) {
+    return fit;
+  }
+
+  for (let epoch = 0; epoch < options.epochs; epoch++) {
+    let interceptGrad = 0;
+    const grads = new Array(dims).fill(0);
+
+    for (let i = 0; i < n; i++) {
+      const error = predictProbability(fit, rows[i]) - labels[i];
+      interceptGrad += error;
+      for (let j = 0; j < dims; j++) {
+        grads[j] += error * rows[i][j];
+      }
+    }
+
+    fit.intercept -= (options.learningRate * interceptGrad) / n;
+    for (let j = 0; j < dims; j++) {
+      fit.coefficients[j] -= options.learningRate * (grads[j] / n + options.l2 * fit.coefficients[j]);
+    }
+  }
+
+  return fit;
+}
+
+/**
+ * Area under the ROC curve via the rank-sum statistic (ties get the average rank)
+ * Null when only one class is present
+ */
+export function auc(labels: number[], scores: number[]): number | null {
+  const positives = labels.filter((label) => label === 1).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) {
+    return null;
+  }
+
+  const order = scores.map((score, i) => ({ score, label: labels[i] })).sort((a, b) => a.score - b.score);
+  let rankSum = 0;
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j < order.length && order[j].score === order[i].score) j++;
+    const averageRank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) {
+      if (order[k].label === 1) rankSum += averageRank;
+    }
+    i = j;
+  }
+
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+export function logLoss(labels: number[], probabilities: number[]): number | null {
+  if (labels.length === 0) {
+    return null;
+  }
+  const eps = 1e-12;
+  const total = labels.reduce((sum, label, i) => {
+    const p = Math.min(1 - eps, Math.max(eps, probabilities[i]));
+    return sum - (label * Math.log(p) + (1 - label) * Math.log(1 - p));
+  }, 0);
+  return total / labels.length;
+}
+
+export interface TierCalibration {
+  tier: "A" | "B" | "C";
+  count: number;
+  meanPredicted: number | null; // average predicted repayment probability
+  observedRepaid: number | null; // share of loans actually repaid
+}
+
+/**
+ * Predicted vs observed repayment rate per score tier
+ */
+export function calibrationByTier(
+  labels: number[],
+  probabilities: number[],
+  cutoffs: { A: number; B: number }
+): TierCalibration[] {
+  const tierOf = (probability: number) => {
+    const score = Math.round(probability * 100);
+    return score >= cutoffs.A ? "A" : score >= cutoffs.B ? "B" : "C";
+  };
+
+  return (["A", "B", "C"] as const).map((tier) => {
+    const members = probabilities.map((p, i) => ({ p, label: labels[i] })).filter(({ p }) => tierOf(p) === tier);
+    const mean = (values: number[]) =>
+      values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+    return {
+      tier,
+      count: members.length,
+      meanPredicted: mean(members.map(({ p }) => p)),
+      observedRepaid: mean(members.map(({ label }) => label)),
+    };
+  });
+}
@@ -0,0 +1,82 @@
+export interface ScoreExplanationData {
+  score: number;
+  tier: "A" | "B" | "C"; // after screening and sybil caps
+  // `contribution` is in score points (negative when it pulls the score down); `percentage` depends on the model type
+  contributions: { feature: string; contribution: number; percentage: number }[];
+  nextTier: { tier: "A" | "B"; threshold: number; pointsNeeded: number } | null;
+  counterfactuals: { signal: string; change: number; newScore: number; description: string }[];
+}
+
+interface ScoreBreakdownProps {
+  explanation: ScoreExplanationData;
+}
+
+/**
+ * Per-feature contribution bars plus tips for reaching the next tier
+ */
+export function ScoreBreakdown({ explanation }: ScoreBreakdownProps) {
+  const { tier, contributions, nextTier, counterfactuals } = explanation;
+  // Bars are relative to the largest contribution either way, so every model type reads the same
+  const largest = Math.max(0, ...contributions.map((item) => Math.abs(item.contribution)));
+
+  return (
+    <div className="p-5 glass rounded-xl border border-gray-800/50 mb-6">
+      <p className="mb-4 font-semibold text-gray-300 text-sm">📊 What makes up your score</p>
+      <div className="space-y-3">
+        {contributions.map((item) => (
+          <div key={item.feature}>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-gray-400">{item.feature}</span>
+              <span className="text-gray-300 font-semibold">
+                {item.contribution >= 0 ? "+" : ""}
+                {item.contribution.toFixed(1)}
+                <span className="text-gray-500 font-normal"> pts</span>
+              </span>
+            </div>
+            <div className="w-full bg-gray-800/60 rounded-full h-2 overflow-hidden">
+              <div
+                className={`h-full rounded-full bg-gradient-to-r ${
+                  item.contribution >= 0 ? "from-blue-500 to-purple-500" : "from-red-500 to-orange-500"
+                }`}
+                style={{ width: `${largest > 0 ? (Math.abs(item.contribution) / largest) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-5 pt-4 border-t border-gray-800/50">
+        {nextTier ? (
+          <>
+            <p className="text-sm text-gray-300 mb-3">
+              <strong>{nextTier.pointsNeeded}</strong> point{nextTier.pointsNeeded === 1 ? "" : "s"} to Tier{" "}
+              {nextTier.tier} (score {nextTier.threshold})
+            </p>
+            {counterfactuals.length > 0 ? (
+              <ul className="space-y-2 text-xs text-gray-400">
+                {counterfactuals.map((tip) => (
+                  <li key={tip.signal} className="flex gap-2">
+                    <span>💡</span>
+                    <span>
+                      {tip.description} <span className="text-gray-500">(score {tip.newScore})</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-500">
+                No single change gets you there; improving several signals together will.
+              </p>
+            )}
+          </>
+        ) : tier === "A" ? (
+          <p className="text-sm text-green-400">🏆 You're in the top tier.</p>
+        ) : (
+          <p className="text-sm text-yellow-400">
+            Your tier is held at {tier} by account checks, so raising your score won't change it.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+export interface ScoreHistoryPoint {
+  score: number;
+  tier: "A" | "B" | "C";
+  computedAt: string;
+  blockNumber: number;
+  modelVersion: string;
+}
+
+export interface TierCutoffs {
+  A: number;
+  B: number;
+}
+
+interface ScoreHistoryChartProps {
+  points: ScoreHistoryPoint[];
+  // Model serving the wallet now and its tier cutoffs (absent from older API versions)
+  modelVersion?: string;
+  tierCutoffs?: TierCutoffs;
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = 24;
+
+// Scores from a model other than the serving one are drawn muted, since its scale may differ
+const OTHER_MODEL_COLOR = "#6b7280";
+
+const toY = (score: number) => PADDING + ((100 - score) / 100) * (HEIGHT - PADDING * 2);
+
+export function ScoreHistoryChart({ points, modelVersion, tierCutoffs }: ScoreHistoryChartProps) {
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">No score history yet.</p>;
+  }
+
+  const toX = (index: number) =>
+    points.length === 1
+      ? WIDTH / 2
+      : PADDING + (index / (points.length - 1)) * (WIDTH - PADDING * 2);
+
+  const tierLines = tierCutoffs
+    ? [
+        { score: tierCutoffs.A, label: "A", color: "#16a34a" },
+        { score: tierCutoffs.B, label: "B", color: "#ca8a04" },
+      ]
+    : [];
+
+  // One line per run of scores from the same model; the line breaks where the model changed
+  const segments: { modelVersion: string; path: string }[] = [];
+  points.forEach((point, i) => {
+    const last = segments[segments.length - 1];
+    const coords = `${toX(i).toFixed(1)} ${toY(point.score).toFixed(1)}`;
+    if (last && last.modelVersion === point.modelVersion) {
+      last.path += ` L ${coords}`;
+    } else {
+      segments.push({ modelVersion: point.modelVersion, path: `M ${coords}` });
+    }
+  });
+  const isServing = (version: string) => !modelVersion || version === modelVersion;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-44">
+        {tierLines.map((line) => (
+          <g key={line.label}>
+            <line
+              x1={PADDING}
+              x2={WIDTH - PADDING}
+              y1={toY(line.score)}
+              y2={toY(line.score)}
+              stroke={line.color}
+              strokeOpacity={0.4}
+              strokeDasharray="4 4"
+            />
+            <text x={WIDTH - PADDING + 4} y={toY(line.score) + 4} fill={line.color} fontSize="11">
+              {line.label}
+            </text>
+          </g>
+        ))}
+        {segments.map((segment, i) => (
+          <path
+            key={i}
+            d={segment.path}
+            fill="none"
+            stroke={isServing(segment.modelVersion) ? "url(#scoreGradient)" : OTHER_MODEL_COLOR}
+            strokeWidth={2.5}
+          />
+        ))}
+        <defs>
+          <linearGradient id="scoreGradient" x1="0" x2="1" y1="0" y2="0">
+            <stop offset="0%" stopColor="#3b82f6" />
+            <stop offset="100%" stopColor="#a855f7" />
+          </linearGradient>
+        </defs>
+        {points.map((point, i) => (
+          <circle
+            key={`${point.computedAt}-${i}`}
+            cx={toX(i)}
+            cy={toY(point.score)}
+            r={3.5}
+            fill={isServing(point.modelVersion) ? "#a855f7" : OTHER_MODEL_COLOR}
+          >
+            <title>
+              {`${new Date(point.computedAt).toLocaleString()}: ${point.score} (Tier ${point.tier}, block ${point.blockNumber}, ${point.modelVersion})`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{new Date(points[0].computedAt).toLocaleDateString()}</span>
+        <span>{new Date(points[points.length - 1].computedAt).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
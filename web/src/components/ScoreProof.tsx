@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { ScoreReceipt } from "../lib/scoreReceipt";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
+
+interface ScoreProofProps {
+  receipt: ScoreReceipt | null;
+}
+
+interface VerifyResult {
+  valid: boolean;
+  tier: "A" | "B" | "C" | null;
+}
+
+/**
+ * Reveal a committed score (score + salt) to a third party, or check one
+ * someone revealed to you against the on-chain registry
+ */
+export function ScoreProof({ receipt }: ScoreProofProps) {
+  const [address, setAddress] = useState("");
+  const [score, setScore] = useState("");
+  const [salt, setSalt] = useState("");
+  const [modelVersion, setModelVersion] = useState("");
+  const [verifying, setVerifying] = useState(false);
+  const [result, setResult] = useState<VerifyResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const proofText = receipt
+    ? JSON.stringify({
+        address: receipt.address,
+        score: receipt.score,
+        salt: receipt.salt,
+        modelVersion: receipt.modelVersion,
+        blockNumber: receipt.blockNumber,
+      })
+    : "";
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(proofText);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    setError(null);
+    setResult(null);
+    try {
+      const response = await fetch(`${API_URL}/score/verify`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ address, score: parseInt(score, 10), salt, modelVersion }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Verification failed");
+      }
+      setResult({ valid: data.valid, tier: data.tier });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const fillFromReceipt = () => {
+    if (!receipt) return;
+    setAddress(receipt.address);
+    setScore(String(receipt.score));
+    setSalt(receipt.salt);
+    setModelVersion(receipt.modelVersion);
+  };
+
+  return (
+    <div className="p-6 glass rounded-xl border border-gray-800/50">
+      <h3 className="text-lg font-bold text-gray-200 mb-2">Prove Your Score</h3>
+      <p className="text-xs text-gray-400 mb-4">
+        Only a salted hash of your score is stored on-chain. Share the proof below to let someone
+        verify your committed score; without the salt it cannot be recovered from the hash.
+      </p>
+
+      {receipt ? (
+        <div className="mb-5 p-4 bg-gray-800/40 rounded-lg border border-gray-700/50">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm text-gray-300">
+              Committed score <strong>{receipt.score}</strong> (Tier {receipt.tier}, model {receipt.modelVersion}
+              {receipt.modelVariant === "challenger" && ", challenger"})
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={fillFromReceipt}
+                className="text-xs font-semibold text-gray-300 hover:text-white px-2 py-1 rounded-lg hover:bg-gray-700/50 transition-colors"
+              >
+                Use below
+              </button>
+              <button
+                onClick={handleCopy}
+                className="text-xs font-semibold text-blue-400 hover:text-blue-300 px-2 py-1 rounded-lg hover:bg-blue-500/10 transition-colors"
+              >
+                {copied ? "Copied!" : "Copy proof"}
+              </button>
+            </div>
+          </div>
+          <code className="block text-xs text-gray-500 break-all">{receipt.salt}</code>
+          {receipt.blockNumber !== undefined && (
+            <p className="mt-2 text-xs text-gray-500">
+              Computed at block {receipt.blockNumber.toLocaleString()}
+              {receipt.blockHash && <> (<code className="break-all">{receipt.blockHash}</code>)</>}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="mb-5 text-xs text-gray-500">
+          No commit receipt on this device. Commit your score from the Borrow tab to get one.
+        </p>
+      )}
+
+      <div className="space-y-3">
+        <input
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          placeholder="Wallet address (0x...)"
+          className="w-full px-3 py-2 bg-gray-800/60 border border-gray-700/50 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        />
+        <div className="flex gap-3">
+          <input
+            value={score}
+            onChange={(e) => setScore(e.target.value)}
+            placeholder="Score"
+            type="number"
+            min={0}
+            max={100}
+            className="w-24 px-3 py-2 bg-gray-800/60 border border-gray-700/50 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          <input
+            value={salt}
+            onChange={(e) => setSalt(e.target.value)}
+            placeholder="Salt (0x...)"
+            className="flex-1 px-3 py-2 bg-gray-800/60 border border-gray-700/50 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+        </div>
+        <input
+          value={modelVersion}
+          onChange={(e) => setModelVersion(e.target.value)}
+          placeholder="Model version (e.g. linear-v1)"
+          className="w-full px-3 py-2 bg-gray-800/60 border border-gray-700/50 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        />
+        <button
+          onClick={handleVerify}
+          disabled={verifying || !address || !score || !salt || !modelVersion}
+          className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-700 disabled:to-gray-700 text-white text-sm font-semibold py-2.5 px-6 rounded-xl transition-all duration-200"
+        >
+          {verifying ? "Verifying..." : "Verify Against Registry"}
+        </button>
+      </div>
+
+      {result && (
+        <div
+          className={`mt-4 p-3 rounded-lg text-sm border ${
+            result.valid
+              ? "bg-green-500/10 border-green-500/30 text-green-300"
+              : "bg-red-500/10 border-red-500/30 text-red-300"
+          }`}
+        >
+          {result.valid
+            ? `✅ Valid: score ${score} matches the on-chain commitment (Tier ${result.tier}).`
+            : "❌ Does not match the on-chain commitment for this address."}
+        </div>
+      )}
+      {error && <p className="mt-4 text-sm text-red-400">Error: {error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
+
+interface StoredSession {
+  token: string;
+  expiresAt: string;
+}
+
+const sessionKey = (address: string) => `api_session_${address.toLowerCase()}`;
+
+/**
+ * Get an API session token proving control of `address`
+ * Reuses a stored unexpired session, otherwise asks the wallet to sign the
+ * server-issued login message (Sign-In with Ethereum)
+ */
+export async function getApiSession(
+  address: string,
+  signMessage: (args: { message: string }) => Promise<`0x${string}`>
+): Promise<string> {
+  const stored = sessionStorage.getItem(sessionKey(address));
+  if (stored) {
+    try {
+      const session: StoredSession = JSON.parse(stored);
+      // Keep a minute of slack so the token doesn't expire mid-request
+      if (Date.parse(session.expiresAt) - Date.now() > 60 * 1000) {
+        return session.token;
+      }
+    } catch {
+      // Ignore corrupt entries and sign in again
+    }
+  }
+
+  const nonceResponse = await fetch(`${API_URL}/auth/nonce?address=${address}`);
+  if (!nonceResponse.ok) {
+    throw new Error("Failed to start wallet sign-in");
+  }
+  const { message } = await nonceResponse.json();
+
+  const signature = await signMessage({ message });
+
+  const verifyResponse = await fetch(`${API_URL}/auth/verify`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, signature }),
+  });
+  if (!verifyResponse.ok) {
+    const errorData = await verifyResponse.json().catch(() => ({}));
+    throw new Error(errorData.error || "Wallet sign-in failed");
+  }
+  const { token, expiresAt } = await verifyResponse.json();
+
+  sessionStorage.setItem(sessionKey(address), JSON.stringify({ token, expiresAt }));
+  return token;
+}
+
+/**
+ * Forget the stored session (e.g. after the API rejected it)
+ */
+export function clearApiSession(address: string) {
+  sessionStorage.removeItem(sessionKey(address));
+}
@@ -0,0 +1,33 @@
+/**
+ * Receipt for a committed score. The API only keeps the salt until its commit
+ * job is pruned, so it must be kept here to later prove the committed score.
+ */
+export interface ScoreReceipt {
+  address: string;
+  score: number;
+  tier: "A" | "B" | "C";
+  salt: string;
+  modelVersion: string; // bound into the commitment hash
+  modelVariant?: "champion" | "challenger" | null; // which side of a model A/B test served the score
+  // Block the score was computed at; with modelVersion it reproduces the score exactly
+  blockNumber?: number;
+  blockHash?: string | null;
+  txHash: string | null; // null until the API's commit transaction is sent
+  committedAt: string;
+}
+
+const receiptKey = (address: string) => `score_receipt_${address.toLowerCase()}`;
+
+export function saveScoreReceipt(receipt: ScoreReceipt) {
+  localStorage.setItem(receiptKey(receipt.address), JSON.stringify(receipt));
+}
+
+export function loadScoreReceipt(address: string): ScoreReceipt | null {
+  const stored = localStorage.getItem(receiptKey(address));
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+}
@@ -1,16 +1,23 @@
 import React, { useState, useEffect } from "react";
-import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadContract, usePublicClient } from "wagmi";
+import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadContract, usePublicClient, useSignMessage } from "wagmi";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 import { Card } from "../components/Card";
 import { Input } from "../components/Input";
 import { CORE_ADDRESS, LENDING_CORE_ABI, SCORE_ADDRESS, SCORE_REGISTRY_ABI, WMATIC_ADDRESS, USDC_ADDRESS, ERC20_ABI, isValidAddress } from "../lib/contracts";
 import { parseUnits, formatUnits, maxUint256 } from "viem";
+import { getApiSession, clearApiSession } from "../lib/auth";
+import { saveScoreReceipt } from "../lib/scoreReceipt";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
 
+// How often and how long to wait for a queued score commit to be mined
+const COMMIT_POLL_INTERVAL_MS = 2000;
+const COMMIT_POLL_TIMEOUT_MS = 3 * 60 * 1000;
+
 export function Borrow() {
   const { address, isConnected } = useAccount();
   const publicClient = usePublicClient();
+  const { signMessageAsync } = useSignMessage();
   const [collateralAmount, setCollateralAmount] = useState("");
   const [debtAmount, setDebtAmount] = useState("");
   const [loading, setLoading] = useState(false);
@@ -113,41 +120,74 @@ export function Borrow() {
     setError(null);
     setSuccess(null);
     try {
+      // Prove control of this address by signing the API's login message
+      const token = await getApiSession(address, signMessageAsync);
+
       const commitResponse = await fetch(`${API_URL}/score/commit`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          address,
-          score: scoreData.score,
-          tier: scoreData.tier,
-        }),
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        // The API recomputes the score itself; only the address is sent
+        body: JSON.stringify({ address }),
       });
+      if (commitResponse.status === 401) {
+        // Session expired or was lost on an API restart: sign in again next time
+        clearApiSession(address);
+      }
       if (!commitResponse.ok) {
         const errorData = await commitResponse.json().catch(() => ({}));
         const errorMsg = errorData.error || errorData.message || "Failed to commit score";
         console.error("Commit score error:", errorData);
         throw new Error(errorMsg);
       }
-      await commitResponse.json();
-      setSuccess("Score committed successfully! Waiting for on-chain confirmation...");
-      
-      // Optimistically set as committed (will be verified by refetch)
-      setScoreCommitted(true);
-      
-      // Wait a bit for the transaction to be mined, then refetch to verify
-      setTimeout(async () => {
-        try {
-          const refetchResult = await refetchScore();
-          // If refetch fails or returns empty, we'll keep the optimistic state
-          // The useEffect will update based on actual on-chain data
-          if (refetchResult.data) {
-            setSuccess("Score committed successfully! You can now open a loan.");
-          }
-        } catch (err) {
-          console.error("Error refetching score:", err);
-          // Keep optimistic state even if refetch fails
+      let job = await commitResponse.json();
+      const receipt = {
+        address,
+        score: job.score,
+        tier: job.tier,
+        salt: job.salt,
+        modelVersion: job.modelVersion,
+        modelVariant: job.modelVariant,
+        blockNumber: job.blockNumber,
+        blockHash: job.blockHash,
+        txHash: job.txHash,
+        committedAt: new Date().toISOString(),
+      };
+      // The salt is the only way to later prove this score, so keep it with the user right away
+      saveScoreReceipt(receipt);
+      // Keep the displayed tier in sync with what the server actually committed
+      setScoreData((prev: any) => ({ ...prev, score: job.score, tier: job.tier }));
+      setSuccess("Score commit queued. Waiting for on-chain confirmation...");
+
+      // The API sends the transaction in the background; poll the job until it settles
+      const deadline = Date.now() + COMMIT_POLL_TIMEOUT_MS;
+      while ((job.status === "queued" || job.status === "submitted") && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, COMMIT_POLL_INTERVAL_MS));
+        const jobResponse = await fetch(`${API_URL}/score/commit/${job.jobId}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!jobResponse.ok) {
+          throw new Error("Lost track of the score commit, please check again later");
         }
-      }, 3000);
+        job = await jobResponse.json();
+        if (job.txHash) {
+          saveScoreReceipt({ ...receipt, txHash: job.txHash });
+        }
+      }
+
+      if (job.status === "failed") {
+        throw new Error(job.error || "Score commit failed");
+      }
+      if (job.status !== "confirmed") {
+        setSuccess("Score commit is still pending on-chain. Check back in a few minutes.");
+        return;
+      }
+
+      setScoreCommitted(true);
+      await refetchScore();
+      setSuccess("Score committed successfully! You can now open a loan.");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
       setSuccess(null);
@@ -679,10 +719,20 @@ export function Borrow() {
                <p className="text-xs text-yellow-400/80 mb-4">
                  ⓘ You only need to do this once per wallet. After committing, you can open multiple loans without committing again.
                </p>
+               {scoreData.degraded && (
+                 <p className="text-xs text-red-400 mb-4">
+                   Some of your signals couldn't be read from the chain. Refresh your score on the Dashboard before committing.
+                 </p>
+               )}
+               {scoreData.screening?.action === "block" && (
+                 <p className="text-xs text-red-400 mb-4">
+                   This wallet is on a screening denylist, so its score can't be committed.
+                 </p>
+               )}
                <button
                  type="button"
                  onClick={handleCommitScore}
-                 disabled={committing}
+                 disabled={committing || scoreData.degraded || scoreData.screening?.action === "block"}
                  className="w-full bg-gradient-to-r from-yellow-600 to-yellow-700 hover:from-yellow-700 hover:to-yellow-800 disabled:from-gray-700 disabled:to-gray-700 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200 shadow-lg shadow-yellow-500/25 disabled:shadow-none"
                >
                  {committing ? "Committing..." : "Commit Score"}
@@ -1,97 +1,247 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import { useAccount } from "wagmi";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 import { Card } from "../components/Card";
+import { ScoreHistoryChart, ScoreHistoryPoint, TierCutoffs } from "../components/ScoreHistoryChart";
+import { ScoreProof } from "../components/ScoreProof";
+import { ScoreBreakdown, ScoreExplanationData } from "../components/ScoreBreakdown";
+import { loadScoreReceipt } from "../lib/scoreReceipt";
+
+interface SignalOrigin {
+  provenance: "real" | "default" | "fallback";
+  confidence: number;
+  reason: string | null;
+}
+
+const SIGNAL_LABELS: Record<string, string> = {
+  accountType: "Account type",
+  walletAge: "Wallet age",
+  recentTxCount: "Transaction count",
+  stablecoinHolding: "Stablecoin holdings",
+  loanHistory: "Loan history",
+  counterparties: "Counterparties",
+  sybil: "Sybil clustering",
+};
+
+type AccountType = "eoa" | "smartAccount" | "multisig";
+
+const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  eoa: "Externally owned account",
+  smartAccount: "Smart contract wallet",
+  multisig: "Multisig wallet",
+};
 
 interface ScoreData {
   address: string;
   score: number;
   tier: "A" | "B" | "C";
+  accountType?: AccountType | null; // null on scores computed before account types were detected
   method?: "ml" | "heuristic"; // AI/ML method indicator
+  modelVersion?: string;
+  modelVariant?: "champion" | "challenger" | null; // challenger while a new model is evaluated on part of the traffic
+  blockNumber?: number;
+  computedAt?: string;
+  cached?: boolean;
+  nextRefreshAt?: string | null; // when the API allows the next forced refresh
+  degraded?: boolean; // some signals are placeholders rather than chain data
+  quality?: {
+    confidence: number;
+    signals: Record<string, SignalOrigin>;
+  } | null;
+  // Score change over the recent score history (absent from older API versions)
+  trend?: {
+    direction: "up" | "down" | "flat";
+    delta: number;
+    snapshots: number;
+  };
+  tierCapped?: boolean; // held at tier C by its sybil cluster (absent from older API versions)
+  // Denylist screening: a listed counterparty caps the tier at C, a listed wallet can't commit
+  screening?: {
+    action: "allow" | "capTier" | "block";
+    reasons: string[];
+  } | null;
   signals: {
     walletAge: number;
     recentTxCount: number;
     stablecoinHoldingScore: number;
+    stablecoinBalanceUsd?: number;
     loanHistoryScore: number;
+    // Absent on scores computed before loan outcomes were tracked
+    repaidLoans?: number;
+    partiallyLiquidatedLoans?: number;
+    liquidatedLoans?: number;
+    activeLoans?: number;
+    // Absent on scores computed before counterparty signals existed
+    distinctCounterparties?: number;
+    contractInteractionShare?: number;
+    inboundOutboundRatio?: number;
+    counterpartyScore?: number;
+    // Absent on scores computed before decayed signals and momentum existed
+    decayedActivity?: number;
+    decayedStablecoinBalanceUsd?: number;
+    scoreMomentum?: number;
+    // Absent on scores computed before sybil clustering existed
+    sybilRisk?: number;
+    sybilClusterId?: string | null;
   };
 }
 
+interface ScoreJobProgress {
+  stage: "indexing" | "signals" | "scoring" | "done";
+  blocksScanned: number;
+  blocksTotal: number | null;
+  signalsDone: number;
+  signalsTotal: number;
+}
+
+interface ScoreJobData {
+  jobId: string;
+  status: "running" | "completed" | "failed";
+  progress: ScoreJobProgress;
+  result: ScoreData | null;
+  error: string | null;
+}
+
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
 
+// How often a running score job is polled for progress
+const SCORE_JOB_POLL_INTERVAL_MS = 500;
+
+/**
+ * Overall completion (0-100) of a score job: catching up the index is the first half, signals the second
+ */
+function jobPercent(progress: ScoreJobProgress): number {
+  switch (progress.stage) {
+    case "indexing":
+      return progress.blocksTotal ? Math.round((progress.blocksScanned / progress.blocksTotal) * 50) : 0;
+    case "signals":
+      return 50 + Math.round((progress.signalsDone / progress.signalsTotal) * 45);
+    case "scoring":
+      return 95;
+    default:
+      return 100;
+  }
+}
+
+function jobStageLabel(progress: ScoreJobProgress): string {
+  switch (progress.stage) {
+    case "indexing":
+      return progress.blocksTotal
+        ? `Catching up on chain data (${progress.blocksScanned.toLocaleString()} / ${progress.blocksTotal.toLocaleString()} blocks)...`
+        : "Catching up on chain data...";
+    case "signals":
+      return `Collecting signals (${progress.signalsDone} / ${progress.signalsTotal})...`;
+    default:
+      return "Computing score...";
+  }
+}
+
 export function Dashboard() {
   const { address, isConnected } = useAccount();
   const [scoreData, setScoreData] = useState<ScoreData | null>(null);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<ScoreJobProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<ScoreHistoryPoint[]>([]);
+  const [historyModel, setHistoryModel] = useState<{ modelVersion?: string; tierCutoffs?: TierCutoffs }>({});
+  const [explanation, setExplanation] = useState<ScoreExplanationData | null>(null);
+  const receipt = useMemo(() => (address ? loadScoreReceipt(address) : null), [address]);
 
-  // Check if score can be refreshed (once per day)
+  const fetchHistory = useCallback(async () => {
+    if (!address) return;
+    try {
+      const response = await fetch(`${API_URL}/score/${address}/history?limit=50`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setHistory(data.history || []);
+      setHistoryModel({ modelVersion: data.modelVersion, tierCutoffs: data.tierCutoffs });
+    } catch (err) {
+      console.error("Error fetching score history:", err);
+    }
+  }, [address]);
+
+  const fetchExplanation = useCallback(async () => {
+    if (!address) return;
+    try {
+      const response = await fetch(`${API_URL}/score/${address}/explain`);
+      if (!response.ok) return;
+      setExplanation(await response.json());
+    } catch (err) {
+      console.error("Error fetching score explanation:", err);
+    }
+  }, [address]);
+
+  // The API enforces the refresh cooldown and says when the next refresh is allowed
   const canRefreshScore = useCallback((): boolean => {
     if (!address) return false;
-    const lastRefreshKey = `score_refresh_${address.toLowerCase()}`;
-    const lastRefresh = localStorage.getItem(lastRefreshKey);
-    
-    if (!lastRefresh) return true; // Never refreshed before
-    
-    const lastRefreshTime = parseInt(lastRefresh, 10);
-    const now = Date.now();
-    const oneDayInMs = 24 * 60 * 60 * 1000;
-    
-    return (now - lastRefreshTime) >= oneDayInMs;
-  }, [address]);
+    if (!scoreData?.nextRefreshAt) return true;
+    return Date.parse(scoreData.nextRefreshAt) <= Date.now();
+  }, [address, scoreData]);
 
   const getNextRefreshTime = useCallback((): string | null => {
-    if (!address) return null;
-    const lastRefreshKey = `score_refresh_${address.toLowerCase()}`;
-    const lastRefresh = localStorage.getItem(lastRefreshKey);
-    
-    if (!lastRefresh) return null;
-    
-    const lastRefreshTime = parseInt(lastRefresh, 10);
-    const nextRefreshTime = lastRefreshTime + (24 * 60 * 60 * 1000);
+    if (!scoreData?.nextRefreshAt) return null;
+
+    const nextRefreshTime = Date.parse(scoreData.nextRefreshAt);
     const now = Date.now();
-    
+
     if (nextRefreshTime <= now) return null;
-    
+
     const hoursUntil = Math.floor((nextRefreshTime - now) / (60 * 60 * 1000));
     const minutesUntil = Math.floor(((nextRefreshTime - now) % (60 * 60 * 1000)) / (60 * 1000));
-    
+
     if (hoursUntil > 0) {
       return `${hoursUntil}h ${minutesUntil}m`;
     }
     return `${minutesUntil}m`;
-  }, [address]);
+  }, [scoreData]);
 
-  const fetchScore = useCallback(async (force: boolean = false) => {
+  // refresh = true asks the API to recompute instead of serving its cached score
+  const fetchScore = useCallback(async (refresh: boolean = false) => {
     if (!address) return;
-    
-    // Check if can refresh (once per day limit) - unless forced (for initial load)
-    if (!force && !canRefreshScore()) {
-      const nextRefresh = getNextRefreshTime();
-      setError(`Score can only be refreshed once per day. Next refresh available in ${nextRefresh || "soon"}.`);
-      return;
-    }
-    
+
     setLoading(true);
+    setProgress(null);
     setError(null);
     try {
-      console.log("🔄 Fetching fresh score from blockchain...");
-      const response = await fetch(`${API_URL}/score/${address}`);
+      // Scores are computed as a job so a long index catch-up shows progress instead of timing out
+      const response = await fetch(`${API_URL}/score/jobs`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ address, refresh }),
+      });
+      if (response.status === 429) {
+        const { nextRefreshAt } = await response.json();
+        setScoreData((current) => (current ? { ...current, nextRefreshAt } : current));
+        setError(`Score was refreshed recently. Next refresh available at ${new Date(nextRefreshAt).toLocaleTimeString()}.`);
+        return;
+      }
       if (!response.ok) {
         const errorText = await response.text();
         throw new Error(errorText || "Failed to fetch score");
       }
-      const data = await response.json();
-      console.log("✅ Received updated score:", data);
-      
-      // Update score data
+
+      let job: ScoreJobData = await response.json();
+      setProgress(job.progress);
+      while (job.status === "running") {
+        await new Promise((resolve) => setTimeout(resolve, SCORE_JOB_POLL_INTERVAL_MS));
+        const jobResponse = await fetch(`${API_URL}/score/jobs/${job.jobId}`);
+        if (!jobResponse.ok) {
+          throw new Error("Lost track of the score computation, please try again");
+        }
+        job = await jobResponse.json();
+        setProgress(job.progress);
+      }
+      if (job.status === "failed" || !job.result) {
+        throw new Error(job.error || "Failed to compute score");
+      }
+      const data = job.result;
+      console.log(data.cached ? "✅ Received cached score:" : "✅ Received fresh score:", data);
+
+      // Update score data and keep a copy to show instantly on the next visit
       setScoreData(data);
-      
-      // Store refresh timestamp and cache score data
-      const lastRefreshKey = `score_refresh_${address.toLowerCase()}`;
-      const cachedScoreKey = `cached_score_${address.toLowerCase()}`;
-      localStorage.setItem(lastRefreshKey, Date.now().toString());
-      localStorage.setItem(cachedScoreKey, JSON.stringify(data));
-      console.log("💾 Score cached and timestamp stored");
+      localStorage.setItem(`cached_score_${address.toLowerCase()}`, JSON.stringify(data));
+      fetchHistory();
+      fetchExplanation();
     } catch (err) {
       console.error("❌ Error fetching score:", err);
       const errorMessage = err instanceof Error ? err.message : "Unknown error";
@@ -109,13 +259,14 @@ export function Dashboard() {
       }
     } finally {
       setLoading(false);
+      setProgress(null);
     }
-  }, [address, canRefreshScore, getNextRefreshTime]);
+  }, [address, fetchHistory, fetchExplanation]);
 
   // Load cached score on mount or address change
   useEffect(() => {
     if (isConnected && address) {
-      // Always try to load cached score first (so dashboard shows something immediately)
+      // Show the last score seen on this device immediately
       const cachedScoreKey = `cached_score_${address.toLowerCase()}`;
       const cachedScore = localStorage.getItem(cachedScoreKey);
       if (cachedScore) {
@@ -127,27 +278,16 @@ export function Dashboard() {
           console.error("Error parsing cached score:", err);
         }
       }
-      
-      // Auto-fetch on initial load
-      const lastRefreshKey = `score_refresh_${address.toLowerCase()}`;
-      const lastRefresh = localStorage.getItem(lastRefreshKey);
-      const canRefresh = !lastRefresh || (Date.now() - parseInt(lastRefresh, 10)) >= (24 * 60 * 60 * 1000);
-      
-      if (!cachedScore) {
-        // No cached data - always fetch (force=true to bypass refresh limit on first load)
-        console.log("📊 No cached data - fetching new score (first time)");
-        fetchScore(true);
-      } else if (canRefresh) {
-        // Has cached data but can refresh - fetch in background to update
-        console.log("🔄 Has cached data but can refresh - updating in background");
-        fetchScore(false);
-      } else {
-        console.log("⏰ Refresh limit active - using cached score only");
-      }
+
+      // The API serves its cached score, so fetching on every load is cheap
+      fetchScore(false);
     } else {
       // Reset when disconnected
       setScoreData(null);
       setError(null);
+      setHistory([]);
+      setHistoryModel({});
+      setExplanation(null);
     }
   }, [address, isConnected, fetchScore]);
 
@@ -192,8 +332,16 @@ export function Dashboard() {
           <div className="p-6 glass rounded-xl border border-gray-800/50">
             <div className="flex items-center gap-3">
               <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-              <p className="text-gray-300">Loading score...</p>
+              <p className="text-gray-300">{progress ? jobStageLabel(progress) : "Loading score..."}</p>
             </div>
+            {progress && (
+              <div className="mt-4 h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-300"
+                  style={{ width: `${jobPercent(progress)}%` }}
+                ></div>
+              </div>
+            )}
           </div>
         )}
         
@@ -201,7 +349,7 @@ export function Dashboard() {
           <div className="p-5 bg-red-500/10 border border-red-500/30 rounded-xl backdrop-blur-sm">
             <p className="text-red-400 mb-4 font-medium">Error: {error}</p>
             <button
-              onClick={() => fetchScore(true)}
+              onClick={() => fetchScore(false)}
               className="bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white font-semibold py-2.5 px-6 rounded-xl transition-all duration-200 shadow-lg shadow-red-500/20"
             >
               Try Again
@@ -221,7 +369,7 @@ export function Dashboard() {
               No score data available. Click below to fetch your credit score.
             </p>
             <button
-              onClick={() => fetchScore(true)}
+              onClick={() => fetchScore(false)}
               disabled={loading}
               className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-700 disabled:to-gray-700 text-white font-semibold py-3 px-8 rounded-xl transition-all duration-200 shadow-lg shadow-blue-500/25 disabled:shadow-none"
             >
@@ -236,8 +384,35 @@ export function Dashboard() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
               <div className="p-6 glass rounded-xl border border-gray-800/50">
                 <div className="text-sm text-gray-400 mb-2 font-medium">Credit Score</div>
-                <div className="text-4xl font-bold gradient-text">{scoreData.score}</div>
-                <div className="text-sm text-gray-500 mt-1">out of 100</div>
+                <div className="flex items-baseline gap-3">
+                  <div className="text-4xl font-bold gradient-text">{scoreData.score}</div>
+                  {scoreData.trend && scoreData.trend.snapshots > 1 && (
+                    <span
+                      className={`text-sm font-semibold ${
+                        scoreData.trend.direction === "up"
+                          ? "text-green-400"
+                          : scoreData.trend.direction === "down"
+                          ? "text-red-400"
+                          : "text-gray-400"
+                      }`}
+                      title={`Change over the last ${scoreData.trend.snapshots} scores`}
+                    >
+                      {scoreData.trend.direction === "up" ? "▲" : scoreData.trend.direction === "down" ? "▼" : "■"}{" "}
+                      {scoreData.trend.delta > 0 ? "+" : ""}
+                      {scoreData.trend.delta}
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm text-gray-500 mt-1">
+                  out of 100
+                  {scoreData.trend && scoreData.trend.snapshots > 1 && (
+                    <span>
+                      {" "}
+                      · {scoreData.trend.direction === "flat" ? "steady" : `trending ${scoreData.trend.direction}`} over the
+                      last {scoreData.trend.snapshots} scores
+                    </span>
+                  )}
+                </div>
               </div>
               <div className="p-6 glass rounded-xl border border-gray-800/50">
                 <div className="text-sm text-gray-400 mb-2 font-medium">Credit Tier</div>
@@ -255,9 +430,28 @@ export function Dashboard() {
                     </span>
                   )}
                 </div>
+                {scoreData.modelVersion && (
+                  <div className="text-xs text-gray-500 mt-3">
+                    Model {scoreData.modelVersion}
+                    {scoreData.modelVariant === "challenger" && " · you're helping evaluate a new scoring model"}
+                  </div>
+                )}
               </div>
             </div>
 
+            {/* Score History */}
+            <div className="mb-8 p-6 glass rounded-xl border border-gray-800/50">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-bold text-gray-200">Score Over Time</h3>
+                <span className="text-xs text-gray-500">{history.length} snapshot{history.length === 1 ? "" : "s"}</span>
+              </div>
+              <ScoreHistoryChart
+                points={history}
+                modelVersion={historyModel.modelVersion}
+                tierCutoffs={historyModel.tierCutoffs}
+              />
+            </div>
+
             <div className="border-t border-gray-800/50 pt-8">
               <div className="flex justify-between items-center mb-6">
                 <h3 className="text-xl font-bold text-gray-200">Score Signals</h3>
@@ -268,53 +462,146 @@ export function Dashboard() {
                     </span>
                   )}
                   <button
-                    onClick={fetchScore}
+                    onClick={() => fetchScore(true)}
                     disabled={loading || !canRefreshScore()}
                     className="text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors px-3 py-1.5 rounded-lg hover:bg-blue-500/10 disabled:hover:bg-transparent"
-                    title={!canRefreshScore() ? "Score can only be refreshed once per day" : "Refresh your credit score"}
+                    title={!canRefreshScore() ? "Score was refreshed recently" : "Refresh your credit score"}
                   >
                     {loading ? "Refreshing..." : "🔄 Refresh"}
                   </button>
                 </div>
               </div>
+              {scoreData.screening && scoreData.screening.action !== "allow" && (
+                <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-300 text-sm backdrop-blur-sm">
+                  {scoreData.screening.action === "block"
+                    ? "This wallet is on a screening denylist, so its score can't be committed."
+                    : "This wallet has transacted with a denylisted address, so its tier is held at C."}
+                  {scoreData.screening.reasons.length > 0 && (
+                    <span className="text-red-400/80"> Reason: {scoreData.screening.reasons.join(", ")}</span>
+                  )}
+                </div>
+              )}
+              {scoreData.tierCapped && (
+                <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-300 text-sm backdrop-blur-sm">
+                  This wallet shares a funding source or back-and-forth transfers with other wallets, so its tier is
+                  held at C.
+                  {scoreData.signals.sybilClusterId && (
+                    <span className="text-red-400/80"> Cluster: {scoreData.signals.sybilClusterId}</span>
+                  )}
+                </div>
+              )}
+              {scoreData.degraded && (
+                <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-xl text-yellow-300 text-sm backdrop-blur-sm">
+                  <p className="font-semibold mb-2">
+                    Some signals couldn't be read from the chain, so this score can't be committed yet
+                    {scoreData.quality && ` (confidence ${Math.round(scoreData.quality.confidence * 100)}%)`}.
+                  </p>
+                  {scoreData.quality && (
+                    <ul className="space-y-1 text-yellow-400/80">
+                      {Object.entries(scoreData.quality.signals)
+                        .filter(([, origin]) => origin.provenance !== "real")
+                        .map(([name, origin]) => (
+                          <li key={name}>
+                            {SIGNAL_LABELS[name] ?? name}: {origin.provenance === "default" ? "default value" : "unavailable"}
+                            {origin.reason && ` - ${origin.reason}`}
+                          </li>
+                        ))}
+                    </ul>
+                  )}
+                </div>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
                 <div className="p-4 glass rounded-xl border border-gray-800/50">
                   <div className="flex justify-between items-center">
                     <span className="text-gray-400 text-sm font-medium">Wallet Age</span>
                     <span className="text-lg font-bold text-gray-200">{scoreData.signals.walletAge} days</span>
                   </div>
+                  {scoreData.accountType && (
+                    <div className="text-xs text-gray-500 mt-1">{ACCOUNT_TYPE_LABELS[scoreData.accountType]}</div>
+                  )}
                 </div>
                 <div className="p-4 glass rounded-xl border border-gray-800/50">
                   <div className="flex justify-between items-center">
                     <span className="text-gray-400 text-sm font-medium">Recent Transactions</span>
                     <span className="text-lg font-bold text-gray-200">{scoreData.signals.recentTxCount}</span>
                   </div>
-                  <div className="text-xs text-gray-500 mt-1">Last 30 days</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Last 30 days
+                    {scoreData.signals.decayedActivity !== undefined &&
+                      ` · ${scoreData.signals.decayedActivity} recency-weighted`}
+                  </div>
                 </div>
                 <div className="p-4 glass rounded-xl border border-gray-800/50">
                   <div className="flex justify-between items-center">
                     <span className="text-gray-400 text-sm font-medium">Stablecoin Score</span>
                     <span className="text-lg font-bold text-gray-200">{scoreData.signals.stablecoinHoldingScore}/100</span>
                   </div>
+                  {scoreData.signals.stablecoinBalanceUsd !== undefined && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      ${scoreData.signals.stablecoinBalanceUsd.toLocaleString()} average over the lookback window
+                      {scoreData.signals.decayedStablecoinBalanceUsd !== undefined &&
+                        ` · $${scoreData.signals.decayedStablecoinBalanceUsd.toLocaleString()} weighted to recent days`}
+                    </div>
+                  )}
                 </div>
                 <div className="p-4 glass rounded-xl border border-gray-800/50">
                   <div className="flex justify-between items-center">
                     <span className="text-gray-400 text-sm font-medium">Loan History</span>
                     <span className="text-lg font-bold text-gray-200">{scoreData.signals.loanHistoryScore}/100</span>
                   </div>
+                  {scoreData.signals.repaidLoans !== undefined && (
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs mt-1">
+                      <span className="text-green-400">{scoreData.signals.repaidLoans} repaid</span>
+                      <span className="text-yellow-400">
+                        {scoreData.signals.partiallyLiquidatedLoans} partially liquidated
+                      </span>
+                      <span className="text-red-400">{scoreData.signals.liquidatedLoans} liquidated</span>
+                      <span className="text-gray-500">{scoreData.signals.activeLoans} active</span>
+                    </div>
+                  )}
                 </div>
+                {scoreData.signals.counterpartyScore !== undefined && (
+                  <div className="p-4 glass rounded-xl border border-gray-800/50">
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-400 text-sm font-medium">Counterparty Diversity</span>
+                      <span className="text-lg font-bold text-gray-200">{scoreData.signals.counterpartyScore}/100</span>
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs mt-1 text-gray-500">
+                      <span>{scoreData.signals.distinctCounterparties} counterparties</span>
+                      <span>{Math.round((scoreData.signals.contractInteractionShare ?? 0) * 100)}% with contracts</span>
+                      <span>in/out value {scoreData.signals.inboundOutboundRatio}</span>
+                    </div>
+                  </div>
+                )}
+                {scoreData.signals.sybilRisk !== undefined && (
+                  <div className="p-4 glass rounded-xl border border-gray-800/50">
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-400 text-sm font-medium">Sybil Risk</span>
+                      <span className="text-lg font-bold text-gray-200">{Math.round(scoreData.signals.sybilRisk * 100)}%</span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {scoreData.signals.sybilClusterId
+                        ? `Linked wallets: ${scoreData.signals.sybilClusterId}`
+                        : "Not linked to other wallets"}
+                    </div>
+                  </div>
+                )}
               </div>
+              {explanation && <ScoreBreakdown explanation={explanation} />}
               <div className="mt-6 p-5 glass rounded-xl border border-gray-800/50 text-sm text-gray-400">
                 <p className="mb-3 font-semibold text-gray-300">💡 How your score updates:</p>
                 <ul className="list-disc list-inside space-y-2 text-xs">
-                  <li><strong>Wallet Age:</strong> Increases automatically over time</li>
+                  <li><strong>Wallet Age:</strong> Increases automatically over time - smart wallet and multisig operations count from the first one</li>
                   <li><strong>Transaction Count:</strong> Updates when you refresh - counts ALL transactions in last 30 days</li>
-                  <li><strong>Stablecoin Holdings:</strong> Reflects your current USDC balance at refresh time</li>
-                  <li><strong>Loan History:</strong> Improves when you repay loans - each repaid loan adds +10 points (max +30)</li>
+                  <li><strong>Stablecoin Holdings:</strong> Your average USDC, USDT, DAI and other stablecoin balance over the scoring lookback window - a last-minute deposit barely counts</li>
+                  <li><strong>Loan History:</strong> Repaid loans add points (max +30), liquidations subtract them - larger and more recent loans count more</li>
+                  <li><strong>Counterparty Diversity:</strong> Dealing with many different addresses and protocols, with value flowing both ways, scores higher than trading back and forth with one wallet</li>
+                  <li><strong>Momentum:</strong> Recent activity and balances count more than old ones, and a score that has been rising gets a small boost (a falling one a small penalty)</li>
                 </ul>
                 <div className="mt-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-300 text-xs">
-                  <strong>⚠️ Important:</strong> Scores refresh once per day. After taking/repaying loans, 
-                  wait 24 hours or check tomorrow to see updated transaction count and loan history reflected in your score.
+                  <strong>⚠️ Important:</strong> Your score is cached between refreshes. After taking/repaying loans,
+                  refresh it {getNextRefreshTime() ? `once the cooldown ends (in ${getNextRefreshTime()})` : "now"} to see
+                  your updated transaction count and loan history reflected in your score.
                 </div>
               </div>
             </div>
@@ -325,6 +612,11 @@ export function Dashboard() {
               </p>
             </div>
 
+            {/* Reveal / verify committed score */}
+            <div className="mt-8">
+              <ScoreProof receipt={receipt} />
+            </div>
+
             {/* Quick Links */}
             <div className="mt-8 flex gap-4">
               <button